@@ -10,13 +10,23 @@ import type {
   ContextSubscriber,
   SerializationFormat,
   UIElement,
+  ElementRecognizer,
 } from './types';
 import { DOMScanner } from './scanner';
 import { MutationTracker, StateTracker } from './tracker';
 import { ContextAggregator } from './aggregator';
 import { Serializer } from './serializer';
 import { ActionExecutor } from './executor';
+import { TableExtractor, ContentExtractor } from './extractor';
+import { ElementRegistry, isElementRef } from './registry';
+import { RecognizerRegistry, BUILT_IN_RECOGNIZERS } from './recognizers';
 import { runInIdle } from './utils';
+import { followsElement, isInside } from './utils/modal';
+
+/**
+ * How many refs of newly revealed elements a scroll result lists
+ */
+const MAX_REPORTED_NEW_ELEMENTS = 50;
 
 /**
  * Default configuration
@@ -28,6 +38,11 @@ const DEFAULT_CONFIG: UUICSConfig = {
     includeHidden: false,
     includeDisabled: false,
     useIdleCallback: true,
+    frames: true,
+    incremental: true,
+    tree: false,
+    viewport: true,
+    builtInRecognizers: true,
   },
   track: {
     mutations: true,
@@ -35,12 +50,23 @@ const DEFAULT_CONFIG: UUICSConfig = {
     changes: true,
     submits: true,
     debounceDelay: 100,
+    announcements: true,
+    toastSelectors: [],
+    maxAnnouncements: 20,
   },
   serialize: {
     format: 'json',
     includeMetadata: true,
     pretty: false,
     includeBounds: false,
+    maxTableRows: 20,
+  },
+  extract: {
+    tables: true,
+    maxTables: 10,
+    maxTableRows: 100,
+    content: true,
+    maxContentLength: 4000,
   },
   performance: {
     enableCache: true,
@@ -58,19 +84,29 @@ const DEFAULT_CONFIG: UUICSConfig = {
   },
 };
 
+/**
+ * Above this many changed subtrees an incremental rescan is no cheaper than a full scan
+ */
+const MAX_INCREMENTAL_ROOTS = 50;
+
 /**
  * UUICS Engine - Universal UI Context System
  */
 export class UUICSEngine {
   private config: UUICSConfig;
+  private registry: ElementRegistry;
+  private recognizers: RecognizerRegistry;
   private scanner: DOMScanner;
   private tracker: MutationTracker;
   private stateTracker?: StateTracker;
   private aggregator: ContextAggregator;
   private serializer: Serializer;
   private executor: ActionExecutor;
+  private tableExtractor: TableExtractor;
+  private contentExtractor: ContentExtractor;
   
   private currentContext: PageContext | null = null;
+  private scannedElements: UIElement[] = [];
   private subscribers: Set<ContextSubscriber> = new Set();
   private scanInterval: ReturnType<typeof setInterval> | null = null;
   private isInitialized: boolean = false;
@@ -78,12 +114,21 @@ export class UUICSEngine {
   constructor(config: UUICSConfig = {}) {
     this.config = this.mergeConfig(DEFAULT_CONFIG, config);
     
-    // Initialize components
-    this.scanner = new DOMScanner(this.config);
+    // Initialize components (scanner, executor, aggregator and table extractor
+    // share the element ref registry; scanner and executor share the recognizers,
+    // configured recognizers win over built-ins)
+    this.registry = new ElementRegistry();
+    this.recognizers = new RecognizerRegistry([
+      ...(this.config.scan?.recognizers ?? []),
+      ...(this.config.scan?.builtInRecognizers !== false ? BUILT_IN_RECOGNIZERS : []),
+    ]);
+    this.scanner = new DOMScanner(this.config, this.registry, this.recognizers);
     this.tracker = new MutationTracker(this.config);
-    this.aggregator = new ContextAggregator();
+    this.aggregator = new ContextAggregator(this.registry);
     this.serializer = new Serializer();
-    this.executor = new ActionExecutor();
+    this.executor = new ActionExecutor(this.registry, this.recognizers);
+    this.tableExtractor = new TableExtractor(this.config, this.registry);
+    this.contentExtractor = new ContentExtractor(this.config);
     
     // Initialize state tracker if enabled
     if (this.config.state?.enabled) {
@@ -138,28 +183,10 @@ export class UUICSEngine {
       // Note: scanner.scan will parse the config internally to handle RegExp | RegExp[] properly
       const elements = this.scanner.scan(root, configOverride as any);
       
-      // Aggregate context
-      const scanDuration = performance.now() - startTime;
-      const context = this.aggregator.aggregate(elements, {
-        scanDuration,
-        scanDepth: configOverride?.depth ?? this.config.scan?.depth ?? 10,
-        partial: elements.length >= (this.config.performance?.maxElements ?? 1000),
-      });
+      // Forget refs of nodes that left the page since the last full scan
+      this.registry.prune();
       
-      // Capture state snapshot if state tracking is enabled
-      if (this.stateTracker) {
-        context.state = this.stateTracker.captureSnapshot();
-      }
-      
-      // Update current context
-      this.currentContext = context;
-      
-      // Notify subscribers
-      this.notifySubscribers(context);
-      
-      this.log('debug', `Scan completed: ${elements.length} elements in ${scanDuration.toFixed(2)}ms`);
-      
-      return context;
+      return this.commitContext(elements, startTime, configOverride?.depth, this.scanner.getTree());
     };
 
     // Use idle callback if configured
@@ -175,15 +202,158 @@ export class UUICSEngine {
     }
   }
 
+  /**
+   * Rescan only the given subtrees and patch the current context.
+   * Elements outside those subtrees keep their existing UIElement entries,
+   * with their viewport, occlusion and blocking state recomputed.
+   * Falls back to a full scan when there is no context to patch yet,
+   * in tree mode (the tree is only built by full scans), or when a modal
+   * dialog opened or closed (that changes which elements can be reached).
+   */
+  async rescan(roots: HTMLElement[]): Promise<PageContext> {
+    const body = document.body;
+    
+    if (!this.currentContext ||
+        this.config.scan?.incremental === false ||
+        this.config.scan?.tree ||
+        (this.config.scan?.rootSelectors && this.config.scan.rootSelectors.length > 0) ||
+        roots.length === 0 ||
+        roots.length > MAX_INCREMENTAL_ROOTS ||
+        roots.some(root => root === body || root.contains(body)) ||
+        this.scanner.hasModalChanged()) {
+      return this.scan();
+    }
+    
+    const startTime = performance.now();
+    
+    const rescanFunction = () => {
+      // Patch the scanned elements, not the context's (choice groups are rebuilt on aggregation)
+      const elements = this.patchElements(this.scannedElements, roots);
+      
+      // Forget refs of nodes the re-rendered subtrees replaced
+      this.registry.prune();
+      
+      this.log('debug', `Incremental rescan of ${roots.length} subtree(s)`);
+      
+      return this.commitContext(elements, startTime);
+    };
+
+    if (this.config.scan?.useIdleCallback) {
+      return new Promise((resolve) => {
+        runInIdle(() => {
+          const context = rescanFunction();
+          resolve(context);
+        });
+      });
+    } else {
+      return rescanFunction();
+    }
+  }
+
+  /**
+   * Replace the elements inside the given subtrees with freshly scanned ones,
+   * keeping document order; the untouched entries get their live state refreshed
+   */
+  private patchElements(previous: UIElement[], roots: HTMLElement[]): UIElement[] {
+    const elements = this.scanner.refreshLiveState(previous.filter(element => {
+      const node = this.scanner.getNode(element);
+      return node !== undefined && node.isConnected && !roots.some(root => isInside(root, node));
+    }));
+    
+    for (const root of roots) {
+      const fresh = this.scanner.scanSubtree(root);
+      if (fresh.length === 0) continue;
+      
+      // Insert before the first kept element that follows the subtree in document
+      // order (shadow roots and frames included)
+      const index = elements.findIndex(element => {
+        const node = this.scanner.getNode(element);
+        return node !== undefined && followsElement(root, node);
+      });
+      
+      if (index === -1) {
+        elements.push(...fresh);
+      } else {
+        elements.splice(index, 0, ...fresh);
+      }
+    }
+    
+    return elements;
+  }
+
+  /**
+   * Aggregate scanned elements into a new context, store it and notify subscribers
+   */
+  private commitContext(
+    elements: UIElement[],
+    startTime: number,
+    scanDepth?: number,
+    tree?: UIElement[]
+  ): PageContext {
+    // Aggregate context
+    const scanDuration = performance.now() - startTime;
+    const context = this.aggregator.aggregate(elements, {
+      scanDuration,
+      scanDepth: scanDepth ?? this.config.scan?.depth ?? 10,
+      partial: elements.length >= (this.config.performance?.maxElements ?? 1000),
+    });
+    
+    if (tree) {
+      context.tree = tree;
+    }
+    
+    // Tables are re-extracted as a whole: row data changes without new elements
+    if (this.config.extract?.tables !== false) {
+      const tables = this.tableExtractor.extract();
+      if (tables.length > 0) {
+        context.tables = tables;
+      }
+    }
+    
+    // Content is re-extracted as well: text changes do not add elements either
+    if (this.config.extract?.content !== false) {
+      context.content = this.contentExtractor.extract();
+    }
+    
+    // Announcements may already be gone from the DOM, so they come from the tracker's buffer
+    const announcements = this.tracker.getAnnouncements();
+    if (announcements.length > 0) {
+      context.announcements = announcements;
+    }
+    
+    // Capture state snapshot if state tracking is enabled
+    if (this.stateTracker) {
+      context.state = this.stateTracker.captureSnapshot();
+    }
+    
+    // Update current context
+    this.currentContext = context;
+    this.scannedElements = elements;
+    
+    // Targets from this context stay relocatable after later re-renders
+    this.executor.remember(context.elements);
+    
+    // Notify subscribers
+    this.notifySubscribers(context);
+    
+    this.log('debug', `Scan completed: ${elements.length} elements in ${scanDuration.toFixed(2)}ms`);
+    
+    return context;
+  }
+
   /**
    * Start mutation tracking
    */
   private startTracking(): void {
-    this.tracker.start((trigger) => {
+    this.tracker.start((trigger, _target, affectedRoots) => {
       this.log('debug', `Change detected: ${trigger}`);
       
-      // Re-scan on changes
-      this.scan();
+      // Re-scan only the affected subtrees when the tracker knows them
+      if (affectedRoots && affectedRoots.length > 0) {
+        this.rescan(affectedRoots);
+      } else {
+        this.scan();
+      }
     });
   }
 
@@ -239,6 +409,7 @@ export class UUICSEngine {
         pretty: this.config.serialize?.pretty,
         includeMetadata: this.config.serialize?.includeMetadata,
         includeBounds: this.config.serialize?.includeBounds,
+        maxTableRows: this.config.serialize?.maxTableRows,
       }
     );
 
@@ -253,15 +424,23 @@ export class UUICSEngine {
   async execute(command: ActionCommand): Promise<ActionResult> {
     this.log('info', 'Executing action', command);
     
+    const startTime = Date.now();
+    const knownRefs = command.action === 'scroll' && this.currentContext
+      ? new Set(this.currentContext.elements.map(element => element.id))
+      : null;
     const result = await this.executor.execute(command, this.currentContext ?? undefined);
+    this.attachAnnouncements(result, startTime);
     
-    this.log(result.success ? 'info' : 'error', 'Action result', result);
-    
-    // Re-scan after action to update context
-    if (result.success) {
+    // Scrolls re-scan right away to report what they revealed
+    if (knownRefs && result.data) {
+      await this.attachNewElements(result, knownRefs);
+    } else if (result.success) {
+      // Re-scan after action to update context
       setTimeout(() => this.scan(), 100);
     }
     
+    this.log(result.success ? 'info' : 'error', 'Action result', result);
+    
     return result;
   }
 
@@ -271,8 +450,14 @@ export class UUICSEngine {
   async executeBatch(commands: ActionCommand[]): Promise<ActionResult[]> {
     this.log('info', `Executing batch of ${commands.length} actions`);
     
+    const startTime = Date.now();
     const results = await this.executor.executeBatch(commands, this.currentContext ?? undefined);
     
+    // Announcements cannot be told apart per action, so the last result gets them all
+    if (results.length > 0) {
+      this.attachAnnouncements(results[results.length - 1], startTime);
+    }
+    
     // Re-scan after batch
     setTimeout(() => this.scan(), 100);
     
@@ -280,14 +465,84 @@ export class UUICSEngine {
   }
 
   /**
-   * Find element by selector
+   * Re-scan after a scroll and add the elements it revealed (not in the
+   * context before) to its result
+   */
+  private async attachNewElements(result: ActionResult, knownRefs: Set<string>): Promise<void> {
+    const context = await this.scan();
+    const added = context.elements.filter(element => !knownRefs.has(element.id));
+    
+    result.data = {
+      ...(result.data as Record<string, unknown>),
+      newElements: added.length,
+      newRefs: added.slice(0, MAX_REPORTED_NEW_ELEMENTS).map(element => element.id),
+    };
+    
+    if (added.length > 0) {
+      result.message = `${result.message} (${added.length} new element${added.length === 1 ? '' : 's'})`;
+    }
+  }
+
+  /**
+   * Attach the announcements made since an action started to its result
+   */
+  private attachAnnouncements(result: ActionResult, startTime: number): void {
+    const announcements = this.tracker.getAnnouncements(startTime);
+    if (announcements.length > 0) {
+      result.announcements = announcements;
+    }
+  }
+
+  /**
+   * Find element by selector, element ref (e.g. 'e42') or locator
+   * (e.g. 'role=button[name="Save"]', 'text="Sign in"', 'label="Email"')
    */
   findElement(selector: string): UIElement | null {
     if (!this.currentContext) {
       return null;
     }
 
-    return this.currentContext.elements.find(el => el.selector === selector) ?? null;
+    const elements = this.currentContext.elements;
+
+    if (isElementRef(selector)) {
+      const ref = selector.trim();
+      return this.findInElements(elements, el => el.id === ref);
+    }
+
+    const exact = this.findInElements(elements, el => el.selector === selector);
+    if (exact) {
+      return exact;
+    }
+
+    // Locators and other selectors: look up the matching node's ref
+    const node = this.executor.resolveTarget(selector);
+    const ref = node ? this.registry.peekRef(node) : undefined;
+    return ref ? this.findInElements(elements, el => el.id === ref) : null;
+  }
+
+  /**
+   * Find the first element matching a predicate, searching children
+   * (choice group members, tree-mode descendants) as well
+   */
+  private findInElements(elements: UIElement[], predicate: (element: UIElement) => boolean): UIElement | null {
+    for (const element of elements) {
+      if (predicate(element)) return element;
+
+      if (element.children) {
+        const child = this.findInElements(element.children, predicate);
+        if (child) return child;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the DOM element an action target points at: an element ref,
+   * a locator or a CSS selector (which may pierce shadow roots and iframes)
+   */
+  resolveElement(target: string): HTMLElement | null {
+    return this.executor.resolveTarget(target);
   }
 
   /**
@@ -301,6 +556,22 @@ export class UUICSEngine {
     return this.currentContext.elements.filter(el => el.type === type);
   }
 
+  /**
+   * Register a recognizer for a component library pattern.
+   * Takes effect on the next scan.
+   */
+  registerRecognizer(recognizer: ElementRecognizer): void {
+    this.recognizers.register(recognizer);
+    this.log('debug', `Registered recognizer: ${recognizer.name}`);
+  }
+
+  /**
+   * Remove a recognizer by name
+   */
+  unregisterRecognizer(name: string): boolean {
+    return this.recognizers.unregister(name);
+  }
+
   /**
    * Track an object with proxy-based state tracking
    */
@@ -374,6 +645,19 @@ export class UUICSEngine {
       includeBounds: this.config.serialize?.includeBounds ?? false,
       filter: this.config.scan?.filter,
       maxElements: this.config.performance?.maxElements,
+      frames: this.config.scan?.frames ?? true,
+      tree: this.config.scan?.tree ?? false,
+      viewport: this.config.scan?.viewport ?? true,
+    });
+    
+    this.tableExtractor.updateConfig({
+      maxTables: this.config.extract?.maxTables ?? 10,
+      maxRows: this.config.extract?.maxTableRows ?? 100,
+    });
+    
+    this.contentExtractor.updateConfig({
+      maxLength: this.config.extract?.maxContentLength ?? 4000,
+      skipTables: this.config.extract?.tables !== false,
     });
     
     this.tracker.updateConfig({
@@ -382,6 +666,9 @@ export class UUICSEngine {
       changes: this.config.track?.changes ?? true,
       submits: this.config.track?.submits ?? true,
       debounceDelay: this.config.track?.debounceDelay ?? 100,
+      announcements: this.config.track?.announcements ?? true,
+      toastSelectors: this.config.track?.toastSelectors ?? [],
+      maxAnnouncements: this.config.track?.maxAnnouncements ?? 20,
     });
     
     this.log('info', 'Configuration updated');
@@ -420,9 +707,12 @@ export class UUICSEngine {
     
     // Clear context
     this.currentContext = null;
+    this.scannedElements = [];
     
-    // Clear cache
+    // Clear cache and element refs
     this.clearCache();
+    this.registry.clear();
+    this.executor.forget();
     
     this.isInitialized = false;
     
@@ -451,6 +741,7 @@ export class UUICSEngine {
       scan: { ...base.scan, ...override.scan },
       track: { ...base.track, ...override.track },
       serialize: { ...base.serialize, ...override.serialize },
+      extract: { ...base.extract, ...override.extract },
       performance: { ...base.performance, ...override.performance },
       debug: { ...base.debug, ...override.debug },
       state: { ...base.state, ...override.state },
@@ -2,13 +2,33 @@
  * Context Aggregator - Aggregates UI elements into structured context with actions
  */
 
-import type { UIElement, PageContext, Action, ActionType, FormState } from '../types';
-import { generateId } from '../utils';
+import type { UIElement, PageContext, Action, ActionType, FormState, FormField } from '../types';
+import { generateId, isInstanceOf } from '../utils';
+import { computeAccessibleName } from '../utils/accessibility';
+import { ElementRegistry } from '../registry';
+import { groupChoices } from './choiceGroups';
+
+/**
+ * Form controls that hold a field value
+ */
+type FieldControl = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/**
+ * Input types that are buttons or carry no user-visible value
+ */
+const NON_FIELD_INPUT_TYPES = ['submit', 'reset', 'button', 'image', 'hidden'];
 
 /**
  * Context Aggregator class
  */
 export class ContextAggregator {
+  private registry: ElementRegistry;
+
+  constructor(registry?: ElementRegistry) {
+    // Shared with the scanner, to map UIElements back to their live nodes
+    this.registry = registry ?? new ElementRegistry();
+  }
+
   /**
    * Aggregate UI elements into a complete page context
    */
@@ -20,13 +40,17 @@ export class ContextAggregator {
       partial: boolean;
     }
   ): PageContext {
+    // Radio and checkbox groups become one element each; form fields are
+    // still looked up among the individual controls
+    const grouped = groupChoices(elements, this.registry);
+
     const context: PageContext = {
       id: generateId('context'),
       timestamp: Date.now(),
       url: window.location.href,
       title: document.title,
-      elements,
-      actions: this.generateActions(elements),
+      elements: grouped,
+      actions: this.generateActions(grouped),
       forms: this.extractForms(elements),
       metadata: {
         elementCount: elements.length,
@@ -36,6 +60,12 @@ export class ContextAggregator {
       },
     };
 
+    // Elements outside an open modal dialog all point at it
+    const blockingDialog = elements.find(element => element.blockedBy?.dialog)?.blockedBy?.dialog;
+    if (blockingDialog) {
+      context.blockingDialog = blockingDialog;
+    }
+
     return context;
   }
 
@@ -54,6 +84,26 @@ export class ContextAggregator {
       // Generate appropriate actions based on element type
       const elementActions = this.getActionsForElement(element);
       actions.push(...elementActions);
+
+      // Component-specific actions offered by a recognizer (those named after
+      // a standard action are run in its place by the executor)
+      for (const customAction of element.customActions ?? []) {
+        if (elementActions.some(action => action.type === customAction.name)) continue;
+
+        const action = this.createAction('custom', element, customAction.description, {
+          name: {
+            type: 'string',
+            description: 'Custom action name',
+            required: true,
+            enum: [customAction.name],
+          },
+          ...customAction.parameters,
+        });
+        action.id = `${element.id}:${customAction.name}`;
+        action.description = `${customAction.description}: ${element.label || element.selector}`;
+        action.name = customAction.name;
+        actions.push(action);
+      }
     }
 
     return actions;
@@ -73,12 +123,30 @@ export class ContextAggregator {
 
       case 'input':
       case 'textarea':
+        // File inputs take files, not text
+        if (element.tag === 'input' && element.attributes.type === 'file') {
+          actions.push(this.createAction('upload', element, 'Upload files to', {
+            files: {
+              type: 'array',
+              description: 'Files as { name, content, encoding?: "text" | "base64", mimeType? }',
+              required: true,
+            },
+          }));
+          break;
+        }
+
         actions.push(this.createAction('setValue', element, 'Set value', {
           value: {
             type: 'string',
             description: 'The value to set',
             required: true,
           },
+          mode: {
+            type: 'string',
+            description: 'fill sets the value at once; type sends key events per character (masked and autocomplete inputs)',
+            default: 'fill',
+            enum: ['fill', 'type'],
+          },
         }));
         actions.push(this.createAction('focus', element, 'Focus'));
         break;
@@ -96,20 +164,110 @@ export class ContextAggregator {
         actions.push(this.createAction('select', element, 'Select option', {
           value: {
             type: 'string',
-            description: 'Option value to select',
+            description: element.selectMetadata?.multiple
+              ? 'Option value to select (or an array of values to select exactly those)'
+              : 'Option value to select',
             required: true,
+            enum: this.getOptionValues(element),
           },
         }));
         break;
 
+      case 'radiogroup':
+        actions.push(this.createAction('select', element, 'Choose an option of', {
+          value: {
+            type: 'string',
+            description: 'Value of the option to choose',
+            required: true,
+            enum: this.getOptionValues(element),
+          },
+        }));
+        break;
+
+      case 'checkboxgroup':
+        actions.push(this.createAction('select', element, 'Select options of', {
+          value: {
+            type: 'string',
+            description: 'Option value to check (or an array of values to check exactly those)',
+            required: true,
+            enum: this.getOptionValues(element),
+          },
+        }));
+        break;
+
+      case 'switch':
+        actions.push(this.createAction('check', element, 'Turn on'));
+        actions.push(this.createAction('uncheck', element, 'Turn off'));
+        break;
+
+      case 'slider': {
+        const min = element.state?.valueMin;
+        const max = element.state?.valueMax;
+        const range = min !== undefined && max !== undefined ? ` between ${min} and ${max}` : '';
+        actions.push(this.createAction('setValue', element, 'Set value of', {
+          value: {
+            type: 'number',
+            description: `The value to set${range}`,
+            required: true,
+          },
+        }));
+        break;
+      }
+
+      case 'tab':
+        actions.push(this.createAction('select', element, 'Select tab'));
+        break;
+
+      case 'menuitem':
+        actions.push(this.createAction('click', element, 'Choose'));
+        break;
+
+      case 'treeitem':
+        actions.push(this.createAction('select', element, 'Select'));
+        break;
+
       case 'form':
         actions.push(this.createAction('submit', element, 'Submit form'));
         break;
     }
 
+    // Disclosures (tree items, menu buttons, accordions) can be expanded and collapsed
+    if (element.state?.expanded !== undefined && ['button', 'link', 'treeitem', 'menuitem'].includes(element.type)) {
+      actions.push(this.createAction(element.state.expanded ? 'collapse' : 'expand', element,
+        element.state.expanded ? 'Collapse' : 'Expand'));
+    }
+
+    // Native drag sources (draggable="true") can be dropped onto another element
+    if (element.attributes.draggable === true) {
+      actions.push(this.createAction('drag', element, 'Drag', {
+        to: {
+          type: 'string',
+          description: 'Element ref, locator or selector of the drop target',
+        },
+        offsetX: {
+          type: 'number',
+          description: 'Horizontal offset in pixels (from the drop target\'s center, or from this element\'s when no target is given)',
+        },
+        offsetY: {
+          type: 'number',
+          description: 'Vertical offset in pixels (from the drop target\'s center, or from this element\'s when no target is given)',
+        },
+      }));
+    }
+
     return actions;
   }
 
+  /**
+   * Get the values of an element's enabled options, or undefined when it has none
+   */
+  private getOptionValues(element: UIElement): string[] | undefined {
+    const values = (element.options ?? [])
+      .filter(option => !option.disabled)
+      .map(option => option.value);
+    return values.length > 0 ? values : undefined;
+  }
+
   /**
    * Create an action object
    */
@@ -121,57 +279,65 @@ export class ContextAggregator {
   ): Action {
     const description = `${actionLabel} ${element.label || element.selector}`;
 
-    return {
-      id: generateId('action'),
+    const action: Action = {
+      // Derived from the element ref so the same action keeps its id across scans
+      id: `${element.id}:${type}`,
       type,
       description,
       target: element.selector,
+      ref: element.id,
       parameters,
       available: element.enabled && element.visible,
     };
+
+    // Elements out of reach stay listed so the model knows why it cannot use them
+    if (element.blockedBy) {
+      action.available = false;
+      action.unavailableReason = element.blockedBy.dialog
+        ? `Blocked by the open dialog "${element.blockedBy.dialog.label}" (${element.blockedBy.dialog.ref})`
+        : 'Inside an inert region';
+    } else if (element.viewport?.occluded) {
+      // Covered elements stay listed, but a click would land on whatever covers them
+      action.available = false;
+      action.unavailableReason = element.viewport.occludedBy
+        ? `Covered by ${element.viewport.occludedBy}`
+        : 'Covered by another element';
+    }
+
+    return action;
   }
 
   /**
-   * Extract form states from elements
+   * Extract form states from elements.
+   * Fields come from the live `form.elements` collection, which also holds
+   * controls outside the <form> tied to it with a form="..." attribute.
    */
   private extractForms(elements: UIElement[]): FormState[] {
     const forms: FormState[] = [];
-    const formElements = elements.filter(el => el.type === 'form');
-
-    for (const formElement of formElements) {
-      // Find all form controls within this form
-      const formControls = elements.filter(el => {
-        // Check if element selector starts with form selector
-        return el.selector.startsWith(formElement.selector) && 
-               ['input', 'textarea', 'select', 'checkbox', 'radio'].includes(el.type);
-      });
+    const elementsByRef = new Map(elements.map(element => [element.id, element]));
 
-      // Build form state
-      const fields: Record<string, unknown> = {};
+    for (const formElement of elements.filter(el => el.type === 'form')) {
+      const form = this.registry.resolve(formElement.id);
+      if (!form || !isInstanceOf(form, HTMLFormElement)) continue;
+
+      const fields: Record<string, FormField> = {};
       const errors: Record<string, string> = {};
-      let valid = true;
 
-      for (const control of formControls) {
-        const fieldName = control.attributes.name as string || control.id;
-        fields[fieldName] = control.value;
+      for (const control of Array.from(form.elements)) {
+        if (!this.isFieldControl(control)) continue;
 
-        // Check required fields
-        if (control.attributes.required && !control.value) {
-          errors[fieldName] = 'This field is required';
-          valid = false;
-        }
+        // Only scanned controls: the others are hidden, excluded or beyond the scan limits
+        const ref = this.registry.peekRef(control);
+        const uiElement = ref ? elementsByRef.get(ref) : undefined;
+        if (!uiElement) continue;
 
-        // Check pattern validation
-        if (control.type === 'input' && control.attributes.pattern && control.value) {
-          try {
-            const pattern = new RegExp(control.attributes.pattern as string);
-            if (!pattern.test(String(control.value))) {
-              errors[fieldName] = 'Invalid format';
-              valid = false;
-            }
-          } catch (e) {
-            // Invalid regex pattern, skip validation
-          }
+        const name = control.name || control.id || uiElement.id;
+        if (fields[name]) continue; // Later members of a radio or checkbox group
+
+        const field = this.buildField(name, control, uiElement, form, elementsByRef);
+        fields[name] = field;
+        if (field.error) {
+          errors[name] = field.error;
         }
       }
 
@@ -179,7 +345,7 @@ export class ContextAggregator {
         id: formElement.id,
         selector: formElement.selector,
         fields,
-        valid,
+        valid: Object.keys(errors).length === 0,
         errors: Object.keys(errors).length > 0 ? errors : undefined,
       });
     }
@@ -187,6 +353,78 @@ export class ContextAggregator {
     return forms;
   }
 
+  /**
+   * Build a form field; radios and checkboxes sharing a name become one group field
+   */
+  private buildField(
+    name: string,
+    control: FieldControl,
+    uiElement: UIElement,
+    form: HTMLFormElement,
+    elementsByRef: Map<string, UIElement>
+  ): FormField {
+    const isInput = isInstanceOf(control, HTMLInputElement);
+    const type = isInput ? control.type : control.tagName.toLowerCase();
+    const checkable = isInput && (type === 'checkbox' || type === 'radio');
+
+    const members = checkable && control.name
+      ? Array.from(form.elements).filter((other): other is HTMLInputElement =>
+          isInstanceOf(other, HTMLInputElement) && other.name === control.name && other.type === type)
+      : [control];
+    const memberElements = members
+      .map(member => {
+        const ref = this.registry.peekRef(member);
+        return ref ? elementsByRef.get(ref) : undefined;
+      })
+      .filter((member): member is UIElement => member !== undefined);
+
+    let value: unknown = uiElement.value;
+    let label = uiElement.label;
+
+    if (checkable) {
+      const checked = (members as HTMLInputElement[]).filter(member => member.checked);
+
+      if (type === 'radio') {
+        value = checked.length > 0 ? checked[0].value : null;
+      } else {
+        value = members.length > 1 ? checked.map(member => member.value) : (control as HTMLInputElement).checked;
+      }
+
+      if (members.length > 1 || type === 'radio') {
+        const group = control.closest('fieldset, [role="radiogroup"], [role="group"]');
+        label = (group && computeAccessibleName(group)) || label;
+      }
+    }
+
+    const invalid = memberElements.find(member => member.validation && !member.validation.valid);
+    const field: FormField = {
+      name,
+      label,
+      type,
+      value,
+      required: members.some(member => member.required || member.getAttribute('aria-required') === 'true'),
+      valid: !invalid,
+      target: uiElement.id,
+    };
+
+    if (invalid?.validation) {
+      field.error = invalid.validation.errorText || invalid.validation.message || 'Invalid value';
+    }
+
+    return field;
+  }
+
+  /**
+   * Check whether a form-associated element is a field (not a button, fieldset or output)
+   */
+  private isFieldControl(element: Element): element is FieldControl {
+    if (isInstanceOf(element, HTMLInputElement)) {
+      return !NON_FIELD_INPUT_TYPES.includes(element.type);
+    }
+
+    return isInstanceOf(element, HTMLSelectElement) || isInstanceOf(element, HTMLTextAreaElement);
+  }
+
   /**
    * Generate action registry (for documentation/introspection)
    */
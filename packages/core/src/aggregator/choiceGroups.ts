@@ -0,0 +1,264 @@
+/**
+ * Choice Groups - Collapse radio and checkbox groups into single elements
+ *
+ * Five radio buttons answering one question are one choice for a model.
+ * Radios (sharing a name, or inside a role="radiogroup") and checkboxes
+ * (sharing a name, or inside a role="group") become one 'radiogroup' or
+ * 'checkboxgroup' element with options and the current selection. The
+ * individual controls are kept as its children. A group without a container
+ * element gets a ref of its own that resolves to its first control (actions
+ * on a grouped control reach the whole group).
+ */
+
+import type { ElementType, SelectOption, UIElement } from '../types';
+import { hash, isInstanceOf } from '../utils';
+import { computeAccessibleName } from '../utils/accessibility';
+import { getDeepSelector } from '../utils/deepQuery';
+import { buildLocators } from '../utils/locators';
+import { buildFingerprint } from '../utils/fingerprint';
+import { SECTION_SEPARATOR } from '../scanner/sections';
+import { ElementRegistry } from '../registry';
+
+/**
+ * Grouping elements, most specific first
+ */
+const GROUP_CONTAINER_SELECTOR = '[role="radiogroup"], [role="group"], fieldset';
+
+/**
+ * Form controls that would not belong to a group container
+ */
+const CONTROL_SELECTOR = 'input:not([type="hidden"]), select, textarea, [role="radio"], [role="checkbox"], [role="textbox"], [role="combobox"]';
+
+/**
+ * A radio or checkbox group being collected
+ */
+interface ChoiceGroup {
+  key: string;
+  type: ElementType;
+  name?: string;
+  members: UIElement[];
+  nodes: HTMLElement[];
+}
+
+/**
+ * Replace the members of each radio and checkbox group with one group element,
+ * placed where the group's first member (or its scanned container) was
+ */
+export function groupChoices(elements: UIElement[], registry: ElementRegistry): UIElement[] {
+  const groups = new Map<string, ChoiceGroup>();
+
+  for (const element of elements) {
+    if (element.type !== 'radio' && element.type !== 'checkbox') continue;
+
+    const node = registry.resolve(element.id);
+    if (!node) continue;
+
+    const key = getGroupKey(node, element.type, registry);
+    if (!key) continue;
+
+    const group = groups.get(key) ?? { key, type: element.type, members: [], nodes: [] };
+    if (isInstanceOf(node, HTMLInputElement) && node.name) {
+      group.name = node.name;
+    }
+    group.members.push(element);
+    group.nodes.push(node);
+    groups.set(key, group);
+  }
+
+  // Where each group goes, and what it replaces
+  const replaced = new Map<UIElement, UIElement | null>();
+
+  for (const group of groups.values()) {
+    if (group.members.length < 2) continue;
+
+    const container = findContainer(group.nodes);
+    const containerElement = container
+      ? elements.find(element => element.id === registry.peekRef(container))
+      : undefined;
+    const groupElement = buildGroupElement(group, container, containerElement, registry);
+
+    const anchor = containerElement ?? group.members[0];
+    replaced.set(anchor, groupElement);
+    for (const member of group.members) {
+      if (member !== anchor) replaced.set(member, null);
+    }
+  }
+
+  if (replaced.size === 0) {
+    return elements;
+  }
+
+  const result: UIElement[] = [];
+  for (const element of elements) {
+    const replacement = replaced.get(element);
+    if (replacement === undefined) {
+      result.push(element);
+    } else if (replacement) {
+      result.push(replacement);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the key shared by the controls of one group, or null for a lone control
+ */
+function getGroupKey(node: HTMLElement, type: ElementType, registry: ElementRegistry): string | null {
+  // Native controls group by name within their form
+  if (isInstanceOf(node, HTMLInputElement)) {
+    if (!node.name) return null;
+    const owner = node.form ? registry.getRef(node.form) : 'document';
+    return `${type}|${owner}|${node.name}`;
+  }
+
+  // ARIA controls group by their radiogroup/group
+  const container = node.closest(type === 'radio' ? '[role="radiogroup"]' : '[role="group"]');
+  return container ? `${type}|${registry.getRef(container)}` : null;
+}
+
+/**
+ * Find the grouping element that holds all the controls of a group and nothing else
+ */
+function findContainer(nodes: HTMLElement[]): HTMLElement | null {
+  let container = nodes[0].parentElement?.closest<HTMLElement>(GROUP_CONTAINER_SELECTOR) ?? null;
+
+  while (container && !nodes.every(node => container!.contains(node))) {
+    container = container.parentElement?.closest<HTMLElement>(GROUP_CONTAINER_SELECTOR) ?? null;
+  }
+
+  if (!container) return null;
+
+  const controls = Array.from(container.querySelectorAll(CONTROL_SELECTOR));
+  return controls.every(control => nodes.includes(control as HTMLElement)) ? container : null;
+}
+
+/**
+ * Build the element that stands for a whole group
+ */
+function buildGroupElement(
+  group: ChoiceGroup,
+  container: HTMLElement | null,
+  containerElement: UIElement | undefined,
+  registry: ElementRegistry
+): UIElement {
+  const first = group.members[0];
+  const isRadio = group.type === 'radio';
+
+  const options: SelectOption[] = group.members.map((member, index) => {
+    const node = group.nodes[index];
+    const value = isInstanceOf(node, HTMLInputElement)
+      ? node.value
+      : node.getAttribute('data-value') ?? node.getAttribute('value') ?? member.label;
+
+    return {
+      value,
+      label: member.label || value,
+      selected: member.value === true || member.state?.checked === true,
+      disabled: !member.enabled,
+      text: member.label || value,
+      index,
+    };
+  });
+  const selectedValues = options.filter(option => option.selected).map(option => option.value);
+
+  const label = (container && computeAccessibleName(container))
+    || getHeadingLabel(first)
+    || (group.name ?? '').replace(/[_\-[\]]+/g, ' ').trim();
+
+  const selector = container ? getDeepSelector(container) : first.selector;
+
+  // Relocation after a re-render finds the container again, or else the
+  // first control, which the group's ref resolves to
+  const locators = container
+    ? containerElement?.locators ?? buildLocators(container, selector)
+    : first.locators;
+  const fingerprint = container
+    ? containerElement?.metadata?.fingerprint ?? buildFingerprint(container)
+    : first.metadata?.fingerprint;
+
+  const groupElement: UIElement = {
+    id: container ? registry.getRef(container) : registry.getKeyRef(group.key, group.nodes[0]),
+    type: isRadio ? 'radiogroup' : 'checkboxgroup',
+    tag: container ? container.tagName.toLowerCase() : first.tag,
+    selector,
+    label,
+    role: isRadio ? 'radiogroup' : 'group',
+    attributes: {
+      ...(group.name ? { name: group.name } : {}),
+      required: group.nodes.some(node => (node as HTMLInputElement).required || node.getAttribute('aria-required') === 'true'),
+    },
+    value: isRadio ? selectedValues[0] ?? '' : selectedValues,
+    visible: group.members.some(member => member.visible),
+    enabled: group.members.some(member => member.enabled),
+    options,
+    selectMetadata: {
+      options,
+      multiple: !isRadio,
+      selectedValues,
+    },
+    children: group.members,
+    metadata: {
+      hash: hash(group.members.map(member => member.metadata?.hash ?? member.id).join('|')),
+      lastUpdated: Date.now(),
+      ...(fingerprint ? { fingerprint } : {}),
+    },
+  };
+
+  if (locators) {
+    groupElement.locators = locators;
+  }
+
+  const sectionPath = containerElement?.sectionPath ?? getGroupSectionPath(first, label);
+  if (sectionPath) {
+    groupElement.sectionPath = sectionPath;
+  }
+
+  if (first.frame) {
+    groupElement.frame = first.frame;
+  }
+
+  if (first.viewport) {
+    groupElement.viewport = first.viewport;
+  }
+
+  if (first.blockedBy) {
+    groupElement.blockedBy = first.blockedBy;
+  }
+
+  const invalid = group.members.find(member => member.validation && !member.validation.valid);
+  if (invalid?.validation) {
+    groupElement.validation = invalid.validation;
+  }
+
+  return groupElement;
+}
+
+/**
+ * Get the innermost section label above a control (usually the question's heading)
+ */
+function getHeadingLabel(member: UIElement): string {
+  const sections = member.sectionPath?.split(SECTION_SEPARATOR) ?? [];
+  if (sections[sections.length - 1] === member.label) {
+    sections.pop();
+  }
+
+  return sections[sections.length - 1] ?? '';
+}
+
+/**
+ * Get the section path of a group: the path of its first member, ending with the group label
+ */
+function getGroupSectionPath(member: UIElement, label: string): string | undefined {
+  if (!member.sectionPath) return undefined;
+
+  const sections = member.sectionPath.split(SECTION_SEPARATOR);
+  if (sections[sections.length - 1] === member.label) {
+    sections.pop();
+  }
+  if (label && sections[sections.length - 1] !== label) {
+    sections.push(label);
+  }
+
+  return sections.join(SECTION_SEPARATOR);
+}
@@ -2,18 +2,135 @@
  * Action Executor - Execute UI actions with validation and error handling
  */
 
-import type { ActionCommand, ActionResult, PageContext } from '../types';
+import type { ActionCommand, ActionResult, HealedTarget, PageContext, UIElement, UploadFile } from '../types';
 import { cleanAndValidateSelector } from '../utils/selectorSanitizer';
-import { findElementByText } from '../utils';
+import { isElementVisible, isInstanceOf } from '../utils';
+import { getDeepSelector, getFrameDocument, querySelectorDeep } from '../utils/deepQuery';
+import { formatLocator, parseLocator, resolveLocator, resolveLocatorAll } from '../utils/locators';
+import { fitsFingerprint, matchFingerprint } from '../utils/fingerprint';
+import { fillText, getFocusedElement, isTextTarget, parseKeyChord, parseModifiers, pressKey, typeText } from './keyboard';
+import type { KeyChord, PressOutcome } from './keyboard';
+import { clickElement, dragHtml5, dragPointer, getElementCenter } from './pointer';
+import type { DragOutcome, MouseButton, Point } from './pointer';
+import { createFiles, dropFiles, findFileInput, isAccepted, setInputFiles } from './files';
+import {
+  findElementWithText,
+  getDocumentScroller,
+  getPageSize,
+  getScrollPosition,
+  isAtEnd,
+  scrollByPixels,
+  scrollToEnd,
+  waitForNewContent,
+} from './scroll';
+import type { ScrollDirection } from './scroll';
+import { findScrollContainer, isScrollContainer } from '../utils/viewport';
+import { computeAccessibleName } from '../utils/accessibility';
+import { ElementRegistry, isElementRef } from '../registry';
+import { RecognizerRegistry } from '../recognizers';
+
+/**
+ * ARIA roles that are selected by clicking them
+ */
+const SELECTABLE_ROLES = ['tab', 'treeitem', 'option', 'gridcell', 'menuitemradio'];
+
+/**
+ * ARIA roles with a checked state that toggles on click
+ */
+const CHECKABLE_ROLES = ['checkbox', 'switch', 'menuitemcheckbox'];
+
+/**
+ * Controls that make up a radio or checkbox group
+ */
+const CHOICE_SELECTOR = 'input[type="radio"], input[type="checkbox"], [role="radio"], [role="checkbox"]';
+
+/**
+ * Upper bound on keyboard steps when moving an ARIA slider
+ */
+const MAX_SLIDER_STEPS = 500;
+
+/**
+ * Upper bound on repetitions of a key press
+ */
+const MAX_KEY_REPEAT = 100;
+
+/**
+ * Pointer moves and milliseconds between them when dragging with pointer events
+ */
+const DEFAULT_DRAG_STEPS = 10;
+const DEFAULT_DRAG_DELAY = 16;
+
+/**
+ * Scroll-until defaults: most scrolls, and milliseconds to wait for more
+ * content at the end of an infinite scroll list
+ */
+const DEFAULT_MAX_SCROLLS = 20;
+const DEFAULT_SCROLL_WAIT = 500;
+
+/**
+ * Actions that may omit the target (press acts on the focused element, scroll on the page)
+ */
+const TARGETLESS_ACTIONS = ['press', 'scroll'];
+
+/**
+ * How many elements of earlier contexts are kept for relocating stale targets
+ */
+const MAX_REMEMBERED_ELEMENTS = 2000;
+
+/**
+ * Locators scoring below this (positional CSS and XPath) only relocate a
+ * stale target when the element they find fits its fingerprint: after rows
+ * are removed or re-ordered, the same position holds a different element
+ */
+const MIN_TRUSTED_LOCATOR_SCORE = 0.6;
 
 /**
  * Action Executor class
  */
 export class ActionExecutor {
+  private registry: ElementRegistry;
+  private recognizers: RecognizerRegistry;
+  private remembered: Map<string, UIElement> = new Map();
+
+  constructor(registry?: ElementRegistry, recognizers?: RecognizerRegistry) {
+    this.registry = registry ?? new ElementRegistry();
+    this.recognizers = recognizers ?? new RecognizerRegistry();
+  }
+
+  /**
+   * Remember the elements of a context by ref and selector, so targets taken
+   * from an earlier context can still be relocated after the page re-rendered
+   */
+  remember(elements: UIElement[]): void {
+    for (const element of elements) {
+      for (const key of [element.id, element.selector]) {
+        // Re-insert so the most recently seen elements are evicted last
+        this.remembered.delete(key);
+        this.remembered.set(key, element);
+      }
+
+      if (element.children) {
+        this.remember(element.children);
+      }
+    }
+
+    for (const key of this.remembered.keys()) {
+      if (this.remembered.size <= MAX_REMEMBERED_ELEMENTS * 2) break;
+      this.remembered.delete(key);
+    }
+  }
+
+  /**
+   * Forget all remembered elements
+   */
+  forget(): void {
+    this.remembered.clear();
+  }
+
   /**
    * Execute an action command
    */
-  async execute(command: ActionCommand, _context?: PageContext): Promise<ActionResult> {
+  async execute(command: ActionCommand, context?: PageContext): Promise<ActionResult> {
     try {
       // Validate command
       const validation = this.validateCommand(command);
@@ -25,6 +142,51 @@ export class ActionExecutor {
         };
       }
 
+      // Key presses without a target go to whatever has focus; scrolls move the page
+      if (!command.target && TARGETLESS_ACTIONS.includes(command.action)) {
+        return await this.executeAction(command, command.action === 'press' ? getFocusedElement() : document.body);
+      }
+
+      // Element refs (e.g. "e42") resolve straight to the registered node
+      if (isElementRef(command.target)) {
+        const element = this.registry.resolve(command.target);
+        if (element) {
+          return await this.executeAction(command, element);
+        }
+        
+        // A detached node may have been re-rendered: find it again
+        const relocated = this.relocate(command.target, context);
+        if (!relocated) {
+          return {
+            success: false,
+            message: 'Target element not found',
+            error: this.registry.has(command.target)
+              ? `Element ref ${command.target} is no longer attached to the page`
+              : `Unknown or expired element ref: ${command.target}`,
+          };
+        }
+        
+        return this.withHealed(await this.executeAction(command, relocated.element), relocated.healed);
+      }
+
+      // Locator syntax (e.g. role=button[name="Save"], text="Sign in")
+      const locator = parseLocator(command.target);
+      if (locator) {
+        const element = resolveLocator(locator, document, true);
+        if (!element) {
+          const count = resolveLocatorAll(locator, document, true).length;
+          return {
+            success: false,
+            message: count > 1 ? 'Target locator is ambiguous' : 'Target element not found',
+            error: count > 1
+              ? `${formatLocator(locator)} matches ${count} elements; use an element ref or a more specific locator`
+              : `No element matching locator: ${formatLocator(locator)}`,
+          };
+        }
+        
+        return await this.executeAction(command, element);
+      }
+
       // Validate and sanitize selector first
       const selectorValidation = cleanAndValidateSelector(command.target);
       if (!selectorValidation.success) {
@@ -36,35 +198,22 @@ export class ActionExecutor {
       }
 
       // Find target element using sanitized selector
-      let element = this.findElement(command.target);
-      
-      // Fallback: try to find by text content if selector failed
-      if (!element && command.parameters?.text) {
-        const textHint = command.parameters.text as string;
-        console.log('[UUICS Executor] Selector failed, trying text fallback:', textHint);
-        
-        // Try to find button/link by text
-        const tagHint = command.target.includes('button') ? 'button' : 
-                        command.target.includes('a') ? 'a' : undefined;
-        element = findElementByText(textHint, { tag: tagHint });
-        
-        if (element) {
-          console.log('[UUICS Executor] ✅ Found element by text:', textHint);
-        }
+      const element = this.findElement(command.target);
+      if (element) {
+        return await this.executeAction(command, element);
       }
       
-      if (!element) {
+      // The page may have re-rendered the element: find it again
+      const relocated = this.relocate(command.target, context);
+      if (!relocated) {
         return {
           success: false,
           message: 'Target element not found',
-          error: `No element matching selector: ${selectorValidation.selector} (original: ${command.target})${command.parameters?.text ? ` or text: "${command.parameters.text}"` : ''}`,
+          error: `No element matching selector: ${selectorValidation.selector} (original: ${command.target})`,
         };
       }
 
-      // Execute the action
-      const result = await this.executeAction(command, element);
-      
-      return result;
+      return this.withHealed(await this.executeAction(command, relocated.element), relocated.healed);
     } catch (error) {
       return {
         success: false,
@@ -74,6 +223,24 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Find the element an action target points at: an element ref, a locator
+   * (e.g. `role=button[name="Save"]`) or a CSS selector. Returns null when
+   * nothing matches or a locator matches more than one element.
+   */
+  resolveTarget(target: string): HTMLElement | null {
+    if (isElementRef(target)) {
+      return this.registry.resolve(target);
+    }
+
+    const locator = parseLocator(target);
+    if (locator) {
+      return resolveLocator(locator, document, true);
+    }
+
+    return this.findElement(target);
+  }
+
   /**
    * Validate action command
    */
@@ -82,7 +249,7 @@ export class ActionExecutor {
       return { valid: false, error: 'Action type is required' };
     }
 
-    if (!command.target && !command.script) {
+    if (!command.target && !command.script && !TARGETLESS_ACTIONS.includes(command.action)) {
       return { valid: false, error: 'Target selector or script is required' };
     }
 
@@ -90,7 +257,9 @@ export class ActionExecutor {
   }
 
   /**
-   * Find element by selector (with automatic sanitization)
+   * Find element by selector (with automatic sanitization).
+   * Selectors may pierce open shadow roots using `>>>` and enter
+   * same-origin iframes using `|>`.
    */
   private findElement(selector: string): HTMLElement | null {
     // Sanitize and validate selector first
@@ -111,7 +280,7 @@ export class ActionExecutor {
     }
 
     try {
-      return document.querySelector(cleaned.selector!);
+      return querySelectorDeep(cleaned.selector!);
     } catch (error) {
       // This should rarely happen now since we pre-validate
       console.error('[UUICS Executor] Unexpected querySelector error:', cleaned.selector, error);
@@ -119,6 +288,91 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Find an element of the context again when its ref or selector no longer
+   * matches: by its other locators, most stable first (ambiguous ones are
+   * skipped, positional ones must fit the fingerprint), then by the closest
+   * match to its fingerprint
+   */
+  private relocate(target: string, context?: PageContext): { element: HTMLElement; healed: HealedTarget } | null {
+    const uiElement = (context ? this.findContextElement(context.elements, target) : null)
+      ?? this.remembered.get(target);
+    if (!uiElement) return null;
+
+    // Locators and fingerprints are resolved inside the element's own frame
+    const frame = uiElement.frame ? querySelectorDeep(uiElement.frame) : null;
+    const doc = frame ? getFrameDocument(frame) : document;
+    if (!doc) return null;
+
+    const fingerprint = uiElement.metadata?.fingerprint;
+
+    for (const locator of uiElement.locators ?? []) {
+      if (locator.strategy === 'css' && locator.value === target) continue;
+
+      const element = resolveLocator(locator, doc);
+      if (!element) continue;
+      if (locator.score < MIN_TRUSTED_LOCATOR_SCORE && !(fingerprint && fitsFingerprint(fingerprint, element))) continue;
+
+      return { element, healed: this.describeHealed(target, element, locator.strategy, locator.score) };
+    }
+
+    const match = fingerprint ? matchFingerprint(fingerprint, doc) : null;
+    if (match) {
+      return { element: match.element, healed: this.describeHealed(target, match.element, 'fingerprint', match.confidence) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Describe the element a stale target was relocated to
+   */
+  private describeHealed(
+    original: string,
+    element: HTMLElement,
+    strategy: HealedTarget['strategy'],
+    confidence: number
+  ): HealedTarget {
+    const healed: HealedTarget = {
+      original,
+      strategy,
+      ref: this.registry.getRef(element),
+      selector: getDeepSelector(element),
+      label: computeAccessibleName(element) || (element.textContent || '').replace(/\s+/g, ' ').trim().substring(0, 50),
+      confidence,
+    };
+
+    console.warn(`[UUICS Executor] Target ${original} no longer matched; healed by ${strategy} to ${healed.ref} ("${healed.label}")`);
+    return healed;
+  }
+
+  /**
+   * Note on a result that its target was relocated
+   */
+  private withHealed(result: ActionResult, healed: HealedTarget): ActionResult {
+    return {
+      ...result,
+      message: `${result.message} (target healed: ${healed.original} → ${healed.ref} "${healed.label}")`,
+      healed,
+    };
+  }
+
+  /**
+   * Find a context element (or a nested child) by ref or selector
+   */
+  private findContextElement(elements: UIElement[], target: string): UIElement | null {
+    for (const element of elements) {
+      if (element.id === target || element.selector === target) return element;
+
+      if (element.children) {
+        const child = this.findContextElement(element.children, target);
+        if (child) return child;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Execute action on element
    */
@@ -131,13 +385,19 @@ export class ActionExecutor {
       return this.executeCustomScript(command.script, element);
     }
 
+    // Recognizer actions can be run by name; those named after a standard
+    // action replace it for their components (e.g. 'select' on a Radix Select)
+    if (command.action !== 'custom' && this.recognizers.getAction(element, command.action)) {
+      return this.executeRecognizerAction(element, command.action, command.parameters);
+    }
+
     // Standard action execution
     switch (command.action) {
       case 'click':
-        return this.executeClick(element);
+        return this.executeClick(element, command.parameters);
       
       case 'setValue':
-        return this.executeSetValue(element, command.parameters?.value);
+        return this.executeSetValue(element, command.parameters?.value, command.parameters);
       
       case 'submit':
         return this.executeSubmit(element);
@@ -155,11 +415,29 @@ export class ActionExecutor {
         return this.executeFocus(element);
       
       case 'scroll':
-        return this.executeScroll(element);
+        return this.executeScroll(element, !!command.target, command.parameters);
       
       case 'hover':
         return this.executeHover(element);
       
+      case 'drag':
+        return this.executeDrag(element, command.parameters);
+      
+      case 'upload':
+        return this.executeUpload(element, command.parameters);
+      
+      case 'expand':
+        return this.executeExpand(element, true);
+      
+      case 'collapse':
+        return this.executeExpand(element, false);
+      
+      case 'press':
+        return this.executePressKey(element, !!command.target, command.parameters);
+      
+      case 'custom':
+        return this.executeRecognizerAction(element, command.parameters?.name, command.parameters);
+      
       default:
         return {
           success: false,
@@ -169,13 +447,54 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Execute a component-specific action offered by a recognizer
+   */
+  private async executeRecognizerAction(
+    element: HTMLElement,
+    name: unknown,
+    parameters: Record<string, unknown> = {}
+  ): Promise<ActionResult> {
+    if (typeof name !== 'string' || !name) {
+      return {
+        success: false,
+        message: 'Custom action name is required',
+        error: 'Pass the recognizer action name as parameters.name',
+      };
+    }
+    
+    const action = this.recognizers.getAction(element, name);
+    if (!action) {
+      return {
+        success: false,
+        message: 'Unknown custom action',
+        error: `No recognizer offers action '${name}' for this element`,
+      };
+    }
+    
+    try {
+      const result = await action.execute(element, parameters);
+      
+      // Wait for React state to settle
+      await this.waitForStateSettle();
+      
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        message: `Custom action '${name}' failed`,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Execute click action
    */
-  private async executeClick(element: HTMLElement): Promise<ActionResult> {
+  private async executeClick(element: HTMLElement, parameters: Record<string, unknown> = {}): Promise<ActionResult> {
     try {
       // Check if element is disabled
-      if (element instanceof HTMLButtonElement || element instanceof HTMLInputElement) {
+      if (isInstanceOf(element, HTMLButtonElement) || isInstanceOf(element, HTMLInputElement)) {
         if (element.disabled) {
           return {
             success: false,
@@ -194,15 +513,52 @@ export class ActionExecutor {
         };
       }
       
-      element.click();
+      const button = parameters.button ?? 'left';
+      if (button !== 'left' && button !== 'middle' && button !== 'right') {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: `Unknown mouse button "${String(button)}" (expected left, middle or right)`,
+        };
+      }
+
+      const rawModifiers = parameters.modifiers ?? [];
+      const modifiers = parseModifiers(Array.isArray(rawModifiers) ? rawModifiers.map(String) : String(rawModifiers).split('+'));
+      if (!modifiers) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: `Unknown modifier in ${JSON.stringify(rawModifiers)} (expected Control, Shift, Alt, Meta or Mod)`,
+        };
+      }
+
+      const position = this.parsePosition(parameters.position);
+      const clickCount = Math.min(Math.max(1, Math.floor(Number(parameters.clickCount ?? 1)) || 1), 3);
+
+      // Coordinates only hit the element inside the viewport
+      element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+
+      const outcome = clickElement(element, {
+        button: button as MouseButton,
+        clickCount,
+        modifiers,
+        position,
+      });
       
       // Wait for React/framework state to settle after click
       // This is crucial for UI that updates state on click
       await this.waitForStateSettle();
       
+      const kind = button === 'right' ? 'Right-click' : button === 'middle' ? 'Middle-click' : clickCount === 2 ? 'Double-click' : clickCount === 3 ? 'Triple-click' : 'Click';
       return {
         success: true,
-        message: 'Click executed successfully',
+        message: `${kind} executed successfully`,
+        data: {
+          button,
+          clickCount,
+          point: outcome.point,
+          defaultPrevented: outcome.defaultPrevented,
+        },
       };
     } catch (error) {
       return {
@@ -213,10 +569,25 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Read a click position ({ x, y } offset from the element's top-left corner)
+   */
+  private parsePosition(value: unknown): Point | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+
+    const { x, y } = value as Record<string, unknown>;
+    const point = { x: Number(x), y: Number(y) };
+    return Number.isFinite(point.x) && Number.isFinite(point.y) ? point : undefined;
+  }
+
   /**
    * Execute setValue action
    */
-  private async executeSetValue(element: HTMLElement, value: unknown): Promise<ActionResult> {
+  private async executeSetValue(
+    element: HTMLElement,
+    value: unknown,
+    parameters: Record<string, unknown> = {}
+  ): Promise<ActionResult> {
     try {
       if (!value && value !== '' && value !== 0) {
         return {
@@ -226,30 +597,37 @@ export class ActionExecutor {
         };
       }
 
-      if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-        // Use native setter to bypass React's control - this is crucial for controlled components
-        const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-          element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype,
-          'value'
-        )?.set;
-        
-        if (nativeInputValueSetter) {
-          nativeInputValueSetter.call(element, String(value));
-        } else {
-        element.value = String(value);
-        }
+      // ARIA sliders are moved with the keyboard
+      if (element.getAttribute('role') === 'slider') {
+        return this.executeSliderValue(element, Number(value));
+      }
+
+      if (isTextTarget(element)) {
+        const text = String(value);
+        const clear = parameters.clear !== false;
+        const mode = parameters.mode === 'type' && !this.isRangeInput(element) ? 'type' : 'fill';
         
-        // Trigger React's synthetic events
-        element.dispatchEvent(new Event('input', { bubbles: true }));
-        element.dispatchEvent(new Event('change', { bubbles: true }));
+        // 'type' sends every character through the keyboard events; 'fill'
+        // sets the text at once with the native setter (crucial for React)
+        const outcome = mode === 'type'
+          ? await typeText(element, text, { clear, delay: Math.max(0, Number(parameters.delay) || 0) })
+          : fillText(element, text, { clear });
         
         // Wait for React state to settle
         await this.waitForStateSettle();
         
+        const notes: string[] = [];
+        if (outcome.truncated) {
+          notes.push('cut off at maxlength');
+        }
+        if (outcome.rejected > 0) {
+          notes.push(`${outcome.rejected} character(s) rejected by the page`);
+        }
+        
         return {
           success: true,
-          message: 'Value set successfully',
-          data: { value },
+          message: `${mode === 'type' ? 'Text typed' : 'Value set'} successfully${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`,
+          data: { value: outcome.value, mode, truncated: outcome.truncated, rejected: outcome.rejected },
         };
       }
 
@@ -267,12 +645,19 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Check whether an element is an <input type="range">
+   */
+  private isRangeInput(element: HTMLElement): boolean {
+    return isInstanceOf(element, HTMLInputElement) && element.type === 'range';
+  }
+
   /**
    * Execute submit action
    */
   private async executeSubmit(element: HTMLElement): Promise<ActionResult> {
     try {
-      if (element instanceof HTMLFormElement) {
+      if (isInstanceOf(element, HTMLFormElement)) {
         // Find submit button in the form and click it
         // This ensures React's onSubmit handler runs and can preventDefault
         const submitButton = element.querySelector('button[type="submit"]') as HTMLButtonElement;
@@ -332,7 +717,7 @@ export class ActionExecutor {
    */
   private async executeSelect(element: HTMLElement, value: unknown): Promise<ActionResult> {
     try {
-      if (element instanceof HTMLSelectElement) {
+      if (isInstanceOf(element, HTMLSelectElement)) {
         // Handle multi-select
         if (element.multiple && Array.isArray(value)) {
           // Clear all selections first
@@ -392,7 +777,30 @@ export class ActionExecutor {
         };
       }
 
-      if (element instanceof HTMLInputElement && element.type === 'radio') {
+      // Tabs, tree items, options and grid cells are selected by clicking them
+      if (SELECTABLE_ROLES.includes(element.getAttribute('role') || '')) {
+        if (element.getAttribute('aria-selected') !== 'true') {
+          element.focus();
+          element.click();
+          await this.waitForStateSettle();
+        }
+        
+        return {
+          success: true,
+          message: `${this.describeRole(element)} selected`,
+          data: { selected: element.getAttribute('aria-selected') === 'true' },
+        };
+      }
+
+      // Radio and checkbox groups and ARIA listboxes select by option value
+      if (value !== undefined && value !== null && value !== '') {
+        const members = this.getChoiceMembers(element);
+        if (members.length > 1 || (members.length === 1 && members[0] !== element)) {
+          return this.executeChoice(element, members, value);
+        }
+      }
+
+      if (isInstanceOf(element, HTMLInputElement) && element.type === 'radio') {
         element.checked = true;
         
         // Trigger change event
@@ -422,96 +830,643 @@ export class ActionExecutor {
   }
 
   /**
-   * Execute check/uncheck action
+   * Get the options of a choice element: the options of an ARIA listbox,
+   * the controls of a group container, or the group a radio or checkbox belongs to
    */
-  private async executeCheck(element: HTMLElement, checked: boolean): Promise<ActionResult> {
-    try {
-      if (element instanceof HTMLInputElement && 
-          (element.type === 'checkbox' || element.type === 'radio')) {
-        element.checked = checked;
-        
-        // Trigger change event
-        element.dispatchEvent(new Event('change', { bubbles: true }));
-        
-        // Wait for React state to settle
-        await this.waitForStateSettle();
-        
-        return {
-          success: true,
-          message: `Checkbox ${checked ? 'checked' : 'unchecked'} successfully`,
-          data: { checked },
-        };
-      }
+  private getChoiceMembers(element: HTMLElement): HTMLElement[] {
+    const role = element.getAttribute('role');
 
-      return {
-        success: false,
-        message: 'Element is not a checkbox',
-        error: 'Target element is not a checkbox or radio button',
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: 'Check/uncheck failed',
-        error: error instanceof Error ? error.message : String(error),
-      };
+    if (role === 'listbox') {
+      return Array.from(element.querySelectorAll<HTMLElement>('[role="option"]'));
     }
-  }
 
-  /**
-   * Execute focus action
-   */
-  private executeFocus(element: HTMLElement): ActionResult {
-    try {
-      element.focus();
-      
-      return {
-        success: true,
-        message: 'Element focused successfully',
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: 'Focus failed',
-        error: error instanceof Error ? error.message : String(error),
-      };
+    // Native radios and checkboxes: the controls of the same form with the same name
+    if (isInstanceOf(element, HTMLInputElement) && (element.type === 'radio' || element.type === 'checkbox')) {
+      if (!element.name) return [element];
+      const scope = element.form
+        ? Array.from(element.form.elements)
+        : Array.from((element.getRootNode() as ParentNode).querySelectorAll('input'));
+      return scope.filter((control): control is HTMLInputElement =>
+        isInstanceOf(control, HTMLInputElement) &&
+        control.type === element.type &&
+        control.name === element.name &&
+        control.form === element.form
+      );
+    }
+
+    // ARIA radios and checkboxes: the controls of their radiogroup/group
+    if (role === 'radio' || role === 'checkbox') {
+      const group = element.closest<HTMLElement>(role === 'radio' ? '[role="radiogroup"]' : '[role="group"]');
+      return group ? Array.from(group.querySelectorAll<HTMLElement>(`[role="${role}"]`)) : [element];
     }
+
+    // Group containers (fieldset, radiogroup, group)
+    return Array.from(element.querySelectorAll<HTMLElement>(CHOICE_SELECTOR));
   }
 
   /**
-   * Execute scroll action
+   * Select options of a radio group, checkbox group or ARIA listbox by clicking
+   * them, the way a user would. A single value picks one option (and adds it
+   * in multi-select groups); an array selects exactly those options.
    */
-  private executeScroll(element: HTMLElement): ActionResult {
-    try {
-      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-      
-      return {
-        success: true,
-        message: 'Scrolled to element successfully',
-      };
-    } catch (error) {
+  private async executeChoice(element: HTMLElement, members: HTMLElement[], value: unknown): Promise<ActionResult> {
+    const multiple = members.some(member => this.isCheckboxLike(member)) ||
+      element.getAttribute('aria-multiselectable') === 'true';
+    const wanted = (Array.isArray(value) ? value : [value]).map(v => String(v));
+
+    if (!multiple && wanted.length > 1) {
       return {
         success: false,
-        message: 'Scroll failed',
-        error: error instanceof Error ? error.message : String(error),
+        message: 'Select failed: only one option can be chosen',
+        error: `Got ${wanted.length} values for a single-choice group`,
       };
     }
-  }
 
-  /**
+    // Match each wanted value to an option by value, then by label
+    const targets: HTMLElement[] = [];
+    for (const item of wanted) {
+      const lower = item.trim().toLowerCase();
+      const match = members.find(member => this.getChoiceValue(member) === item)
+        ?? members.find(member => this.getChoiceLabel(member).toLowerCase() === lower);
+
+      if (!match) {
+        const available = members.map(member => this.getChoiceValue(member)).join(', ');
+        return {
+          success: false,
+          message: `Select failed: no option "${item}"`,
+          error: `Available options: ${available}`,
+        };
+      }
+      targets.push(match);
+    }
+
+    // An array sets the exact selection: other options are cleared
+    const toToggle = members.filter(member => {
+      const selected = this.isChoiceSelected(member);
+      if (targets.includes(member)) return !selected;
+      return multiple && Array.isArray(value) && selected;
+    });
+
+    for (const member of toToggle) {
+      if (this.isChoiceDisabled(member)) {
+        return {
+          success: false,
+          message: `Select failed: option "${this.getChoiceLabel(member)}" is disabled`,
+          error: 'Target option is disabled and cannot be selected',
+        };
+      }
+
+      member.click();
+      await this.waitForStateSettle();
+    }
+
+    const values = members.filter(member => this.isChoiceSelected(member)).map(member => this.getChoiceValue(member));
+    const missing = targets.filter(target => !this.isChoiceSelected(target));
+    if (missing.length > 0) {
+      return {
+        success: false,
+        message: 'Select failed: option did not become selected',
+        error: `Still unselected after clicking: ${missing.map(target => this.getChoiceValue(target)).join(', ')}`,
+        data: { values },
+      };
+    }
+
+    return {
+      success: true,
+      message: multiple ? 'Options selected successfully' : 'Option selected successfully',
+      data: { values },
+    };
+  }
+
+  /**
+   * Check whether a choice control allows several selected options
+   */
+  private isCheckboxLike(member: HTMLElement): boolean {
+    return (isInstanceOf(member, HTMLInputElement) && member.type === 'checkbox') ||
+      member.getAttribute('role') === 'checkbox';
+  }
+
+  /**
+   * Get the value of a radio, checkbox or listbox option
+   */
+  private getChoiceValue(member: HTMLElement): string {
+    if (isInstanceOf(member, HTMLInputElement)) return member.value;
+    return member.getAttribute('data-value') ?? member.getAttribute('value') ?? this.getChoiceLabel(member);
+  }
+
+  /**
+   * Get the label of a radio, checkbox or listbox option
+   */
+  private getChoiceLabel(member: HTMLElement): string {
+    return (computeAccessibleName(member) || member.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Check whether a radio, checkbox or listbox option is selected
+   */
+  private isChoiceSelected(member: HTMLElement): boolean {
+    if (isInstanceOf(member, HTMLInputElement)) return member.checked;
+    if (member.getAttribute('role') === 'option') return member.getAttribute('aria-selected') === 'true';
+    return this.getAriaChecked(member);
+  }
+
+  /**
+   * Check whether a radio, checkbox or listbox option is disabled
+   */
+  private isChoiceDisabled(member: HTMLElement): boolean {
+    return (isInstanceOf(member, HTMLInputElement) && member.disabled) ||
+      member.getAttribute('aria-disabled') === 'true';
+  }
+
+  /**
+   * Execute check/uncheck action
+   */
+  private async executeCheck(element: HTMLElement, checked: boolean): Promise<ActionResult> {
+    try {
+      if (isInstanceOf(element, HTMLInputElement) && 
+          (element.type === 'checkbox' || element.type === 'radio')) {
+        element.checked = checked;
+        
+        // Trigger change event
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+        
+        // Wait for React state to settle
+        await this.waitForStateSettle();
+        
+        return {
+          success: true,
+          message: `Checkbox ${checked ? 'checked' : 'unchecked'} successfully`,
+          data: { checked },
+        };
+      }
+
+      // ARIA checkboxes and switches toggle on click
+      if (CHECKABLE_ROLES.includes(element.getAttribute('role') || '')) {
+        if (this.getAriaChecked(element) !== checked) {
+          element.click();
+          await this.waitForStateSettle();
+        }
+        
+        const current = this.getAriaChecked(element);
+        if (current !== checked) {
+          return {
+            success: false,
+            message: `${this.describeRole(element)} did not change state`,
+            error: `Element is still ${current ? 'checked' : 'unchecked'} after clicking it`,
+          };
+        }
+        
+        return {
+          success: true,
+          message: `${this.describeRole(element)} ${checked ? 'checked' : 'unchecked'} successfully`,
+          data: { checked },
+        };
+      }
+
+      return {
+        success: false,
+        message: 'Element is not a checkbox',
+        error: 'Target element is not a checkbox, switch or radio button',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Check/uncheck failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Read the checked state of an ARIA checkbox or switch (Radix uses data-state)
+   */
+  private getAriaChecked(element: HTMLElement): boolean {
+    const ariaChecked = element.getAttribute('aria-checked');
+    if (ariaChecked) return ariaChecked === 'true';
+    
+    const dataState = element.getAttribute('data-state');
+    return dataState === 'checked' || dataState === 'on';
+  }
+
+  /**
+   * Get a readable name of an element's role for result messages
+   */
+  private describeRole(element: HTMLElement): string {
+    const role = element.getAttribute('role') || element.tagName.toLowerCase();
+    return role.charAt(0).toUpperCase() + role.slice(1);
+  }
+
+  /**
+   * Move an ARIA slider to a value with the keyboard, the way a user would
+   */
+  private async executeSliderValue(element: HTMLElement, target: number): Promise<ActionResult> {
+    if (isNaN(target)) {
+      return {
+        success: false,
+        message: 'Invalid slider value',
+        error: 'Slider values must be numbers',
+      };
+    }
+    
+    const read = () => parseFloat(element.getAttribute('aria-valuenow') || '');
+    const press = (key: string) => element.dispatchEvent(
+      new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true })
+    );
+    
+    element.focus();
+    
+    // Jump to the nearest end first when the target is one
+    const min = parseFloat(element.getAttribute('aria-valuemin') || '');
+    const max = parseFloat(element.getAttribute('aria-valuemax') || '');
+    if (target <= min) press('Home');
+    if (target >= max) press('End');
+    await this.waitForStateSettle();
+    
+    // Step towards the target; stop when a step no longer gets closer
+    for (let i = 0; i < MAX_SLIDER_STEPS && read() !== target; i++) {
+      const before = read();
+      press(before < target ? 'ArrowRight' : 'ArrowLeft');
+      await this.delay(0);
+      
+      const after = read();
+      if (isNaN(after) || Math.abs(after - target) >= Math.abs(before - target)) {
+        // Overshot or stuck: step back if that was closer
+        if (!isNaN(after) && Math.abs(after - target) > Math.abs(before - target)) {
+          press(after < target ? 'ArrowRight' : 'ArrowLeft');
+        }
+        break;
+      }
+    }
+    
+    await this.waitForStateSettle();
+    const value = read();
+    
+    return {
+      success: !isNaN(value),
+      message: value === target ? 'Slider value set successfully' : `Slider moved to the closest step: ${value}`,
+      data: { value },
+      error: isNaN(value) ? 'Slider does not report aria-valuenow' : undefined,
+    };
+  }
+
+  /**
+   * Execute expand/collapse action on a disclosure, tree item or <details>
+   */
+  private async executeExpand(element: HTMLElement, expanded: boolean): Promise<ActionResult> {
+    try {
+      const isDetails = isInstanceOf(element, HTMLDetailsElement);
+      const read = (): boolean | null => isDetails
+        ? (element as HTMLDetailsElement).open
+        : element.hasAttribute('aria-expanded') ? element.getAttribute('aria-expanded') === 'true' : null;
+      
+      if (read() === null) {
+        return {
+          success: false,
+          message: 'Element is not expandable',
+          error: 'Target element has no aria-expanded state',
+        };
+      }
+      
+      if (read() !== expanded) {
+        if (isDetails) {
+          (element as HTMLDetailsElement).open = expanded;
+        } else {
+          element.click();
+          await this.waitForStateSettle();
+          
+          // Tree items often toggle with the arrow keys rather than on click
+          if (read() !== expanded) {
+            element.focus();
+            element.dispatchEvent(new KeyboardEvent('keydown', {
+              key: expanded ? 'ArrowRight' : 'ArrowLeft',
+              bubbles: true,
+              cancelable: true,
+            }));
+          }
+        }
+        
+        await this.waitForStateSettle();
+      }
+      
+      if (read() !== expanded) {
+        return {
+          success: false,
+          message: `${expanded ? 'Expand' : 'Collapse'} failed`,
+          error: `Element is still ${expanded ? 'collapsed' : 'expanded'}`,
+        };
+      }
+      
+      return {
+        success: true,
+        message: `Element ${expanded ? 'expanded' : 'collapsed'} successfully`,
+        data: { expanded },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `${expanded ? 'Expand' : 'Collapse'} failed`,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute focus action
+   */
+  private executeFocus(element: HTMLElement): ActionResult {
+    try {
+      element.focus();
+      
+      return {
+        success: true,
+        message: 'Element focused successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Focus failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute press action: one key or chord (e.g. 'Enter', 'Control+K') or a
+   * sequence of them, sent to the target (focused first) or the focused element
+   */
+  private executePressKey(
+    element: HTMLElement,
+    focusFirst: boolean,
+    parameters?: Record<string, unknown>
+  ): ActionResult {
+    try {
+      const raw = parameters?.key;
+      const keys = (Array.isArray(raw) ? raw : [raw]).filter((key): key is string => typeof key === 'string' && key !== '');
+      if (keys.length === 0) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: 'No key provided for press action (e.g. "Enter", "Escape", "Control+K")',
+        };
+      }
+
+      const chords: KeyChord[] = [];
+      for (const key of keys) {
+        const chord = parseKeyChord(key);
+        if (!chord) {
+          return {
+            success: false,
+            message: 'Invalid value',
+            error: `Unknown key or chord: "${key}"`,
+          };
+        }
+        chords.push(chord);
+      }
+
+      const times = Math.min(Math.max(1, Math.floor(Number(parameters?.times ?? 1)) || 1), MAX_KEY_REPEAT);
+      const doc = element.ownerDocument;
+
+      if (focusFirst && getFocusedElement(doc) !== element) {
+        element.focus();
+      }
+
+      // Keys follow focus as it moves (e.g. Tab), like a real keyboard
+      let receiver = element;
+      const outcomes: PressOutcome[] = [];
+      for (let i = 0; i < times; i++) {
+        for (const chord of chords) {
+          const focusedBefore = getFocusedElement(doc);
+          outcomes.push(pressKey(receiver, chord));
+
+          const focusedAfter = getFocusedElement(doc);
+          if (focusedAfter !== focusedBefore || !receiver.isConnected) {
+            receiver = focusedAfter;
+          }
+        }
+      }
+
+      const performed = outcomes.map(outcome => outcome.performed).filter((action): action is NonNullable<PressOutcome['performed']> => !!action);
+      const prevented = outcomes.filter(outcome => outcome.defaultPrevented).length;
+      const notes = [
+        ...(performed.length > 0 ? [Array.from(new Set(performed)).join(', ')] : []),
+        ...(prevented > 0 ? [`${prevented} cancelled by the page`] : []),
+      ];
+
+      return {
+        success: true,
+        message: `Pressed ${keys.join(', ')}${times > 1 ? ` ×${times}` : ''}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`,
+        data: {
+          keys,
+          times,
+          defaultPrevented: prevented > 0,
+          performed,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Key press failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute scroll action
+   */
+  private async executeScroll(
+    element: HTMLElement,
+    hasTarget: boolean,
+    parameters: Record<string, unknown> = {}
+  ): Promise<ActionResult> {
+    try {
+      const direction = parameters.direction;
+      if (direction !== undefined && !['up', 'down', 'left', 'right'].includes(direction as string)) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: `Unknown scroll direction "${String(direction)}" (expected up, down, left or right)`,
+        };
+      }
+
+      const untilSelector = typeof parameters.untilSelector === 'string' && parameters.untilSelector !== '' ? parameters.untilSelector : null;
+      const untilText = typeof parameters.untilText === 'string' && parameters.untilText !== '' ? parameters.untilText : null;
+      const byDirection = direction !== undefined || parameters.toEnd === true || untilSelector !== null || untilText !== null;
+
+      // Without a direction, scroll the target into view
+      if (!byDirection) {
+        if (!hasTarget) {
+          return {
+            success: false,
+            message: 'Command validation failed',
+            error: 'Scroll needs a target to scroll into view, or a direction, toEnd or until condition',
+          };
+        }
+
+        const behavior = ['smooth', 'instant', 'auto'].includes(parameters.behavior as string)
+          ? parameters.behavior as ScrollBehavior
+          : 'smooth';
+        element.scrollIntoView({ behavior, block: 'center' });
+        
+        return {
+          success: true,
+          message: 'Scrolled to element successfully',
+        };
+      }
+
+      // Scroll the given container, the target if it scrolls, the container
+      // that scrolls the target, or the page
+      let scroller: HTMLElement;
+      if (typeof parameters.container === 'string' && parameters.container !== '') {
+        const container = this.resolveTarget(parameters.container);
+        if (!container) {
+          return {
+            success: false,
+            message: 'Scroll container not found',
+            error: `No element matching container: ${parameters.container}`,
+          };
+        }
+        scroller = isScrollContainer(container) ? container : findScrollContainer(container) ?? getDocumentScroller(container.ownerDocument);
+      } else if (hasTarget) {
+        scroller = isScrollContainer(element) ? element : findScrollContainer(element) ?? getDocumentScroller(element.ownerDocument);
+      } else {
+        scroller = getDocumentScroller(document);
+      }
+
+      if (untilSelector && !isElementRef(untilSelector) && !parseLocator(untilSelector)) {
+        const validation = cleanAndValidateSelector(untilSelector);
+        if (!validation.success) {
+          return {
+            success: false,
+            message: 'Invalid selector',
+            error: validation.error,
+          };
+        }
+      }
+
+      const scrollDirection = (direction ?? 'down') as ScrollDirection;
+      const start = getScrollPosition(scroller);
+      const textRoot = scroller === getDocumentScroller(scroller.ownerDocument) ? scroller.ownerDocument.body : scroller;
+
+      // A plain scroll by an amount or to the end
+      if (!untilSelector && !untilText) {
+        if (parameters.toEnd === true) {
+          scrollToEnd(scroller, scrollDirection);
+        } else {
+          scrollByPixels(scroller, scrollDirection, this.getScrollAmount(scroller, scrollDirection, parameters));
+        }
+
+        // Give lazily rendered content a moment to appear
+        await waitForNewContent(scroller, scrollDirection, 0);
+
+        const end = getScrollPosition(scroller);
+        const moved = end.top !== start.top || end.left !== start.left;
+        return {
+          success: true,
+          message: moved
+            ? `Scrolled ${scrollDirection}${isAtEnd(scroller, scrollDirection) ? ' (reached the end)' : ''}`
+            : `Already at the ${scrollDirection === 'up' || scrollDirection === 'left' ? 'start' : 'end'}; nothing to scroll`,
+          data: {
+            direction: scrollDirection,
+            from: start,
+            to: end,
+            atEnd: isAtEnd(scroller, scrollDirection),
+          },
+        };
+      }
+
+      // Scroll until the element or text shows up, the content ends or the limit is hit
+      const maxScrolls = Math.max(1, Math.floor(Number(parameters.maxScrolls ?? DEFAULT_MAX_SCROLLS)) || DEFAULT_MAX_SCROLLS);
+      const wait = Math.max(0, Number(parameters.wait ?? DEFAULT_SCROLL_WAIT) || 0);
+      const findTarget = (): HTMLElement | null => {
+        const found = untilSelector ? this.resolveTarget(untilSelector) : findElementWithText(textRoot, untilText!);
+        return found && isElementVisible(found) ? found : null;
+      };
+
+      let found = findTarget();
+      let scrolls = 0;
+      let reachedEnd = false;
+
+      while (!found && scrolls < maxScrolls) {
+        const before = getScrollPosition(scroller);
+        scrollByPixels(scroller, scrollDirection, this.getScrollAmount(scroller, scrollDirection, parameters));
+        scrolls++;
+
+        const loaded = await waitForNewContent(scroller, scrollDirection, wait);
+        const after = getScrollPosition(scroller);
+        found = findTarget();
+
+        if (!found && !loaded && after.top === before.top && after.left === before.left) {
+          reachedEnd = true;
+          break;
+        }
+      }
+
+      const data = {
+        direction: scrollDirection,
+        from: start,
+        to: getScrollPosition(scroller),
+        scrolls,
+        atEnd: isAtEnd(scroller, scrollDirection),
+        found: found ? this.registry.getRef(found) : null,
+      };
+      const condition = untilSelector ?? `text "${untilText}"`;
+
+      if (!found) {
+        return {
+          success: false,
+          message: reachedEnd ? 'Reached the end without finding the element' : 'Scroll limit reached without finding the element',
+          error: `${condition} did not appear after ${scrolls} scroll${scrolls === 1 ? '' : 's'}${reachedEnd ? ' (no more content loaded)' : ` (maxScrolls: ${maxScrolls})`}`,
+          data,
+        };
+      }
+
+      found.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+
+      return {
+        success: true,
+        message: `Found ${condition} after ${scrolls} scroll${scrolls === 1 ? '' : 's'} (${data.found})`,
+        data,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Scroll failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Get the pixels to scroll per step: parameters.amount in pixels, or
+   * parameters.pages (default 1) pages
+   */
+  private getScrollAmount(scroller: HTMLElement, direction: ScrollDirection, parameters: Record<string, unknown>): number {
+    const amount = Number(parameters.amount);
+    if (Number.isFinite(amount) && amount > 0) return amount;
+
+    const pages = Number(parameters.pages ?? 1);
+    return getPageSize(scroller, direction) * (Number.isFinite(pages) && pages > 0 ? pages : 1);
+  }
+
+  /**
    * Execute hover action
    */
   private executeHover(element: HTMLElement): ActionResult {
     try {
+      // Use the element's own window so events dispatched into iframes carry the right view
+      const view = element.ownerDocument.defaultView ?? window;
+      
       const mouseEnterEvent = new MouseEvent('mouseenter', {
         bubbles: true,
         cancelable: true,
-        view: window,
+        view,
       });
       
       const mouseOverEvent = new MouseEvent('mouseover', {
         bubbles: true,
         cancelable: true,
-        view: window,
+        view,
       });
       
       element.dispatchEvent(mouseEnterEvent);
@@ -530,6 +1485,208 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Execute drag action: drag the element onto a destination (parameters.to)
+   * or by an offset, with HTML5 drag events (draggable="true" sources) or
+   * pointer events (libraries that track the pointer, such as dnd-kit)
+   */
+  private async executeDrag(element: HTMLElement, parameters?: Record<string, unknown>): Promise<ActionResult> {
+    try {
+      const to = typeof parameters?.to === 'string' && parameters.to !== '' ? parameters.to : null;
+      const offsetX = Number(parameters?.offsetX ?? 0) || 0;
+      const offsetY = Number(parameters?.offsetY ?? 0) || 0;
+
+      if (!to && offsetX === 0 && offsetY === 0) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: 'Drag needs a destination (to) or an offset (offsetX/offsetY)',
+        };
+      }
+
+      const destination = to ? this.resolveTarget(to) : null;
+      if (to && !destination) {
+        return {
+          success: false,
+          message: 'Drop target not found',
+          error: `No element matching drop target: ${to}`,
+        };
+      }
+
+      if (destination && destination.ownerDocument !== element.ownerDocument) {
+        return {
+          success: false,
+          message: 'Drag failed',
+          error: 'The element and the drop target are in different frames',
+        };
+      }
+
+      // The drag starts on the draggable ancestor when the target is its handle
+      const draggable = element.closest<HTMLElement>('[draggable="true"]');
+      const requested = parameters?.mode;
+      const mode = requested === 'html5' || requested === 'pointer' ? requested : draggable ? 'html5' : 'pointer';
+      const source = mode === 'html5' ? draggable ?? element : element;
+
+      // Coordinates only hit the right elements inside the viewport
+      element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+
+      const from = getElementCenter(element);
+      const origin = destination ? getElementCenter(destination) : from;
+      const point = { x: origin.x + offsetX, y: origin.y + offsetY };
+
+      let outcome: DragOutcome;
+      if (mode === 'html5') {
+        outcome = dragHtml5(source, from, point, destination);
+      } else {
+        const steps = Math.max(1, Math.floor(Number(parameters?.steps ?? DEFAULT_DRAG_STEPS)) || DEFAULT_DRAG_STEPS);
+        const delay = Math.max(0, Number(parameters?.delay ?? DEFAULT_DRAG_DELAY) || 0);
+        outcome = await dragPointer(source, from, point, destination, { steps, delay });
+      }
+
+      // Sortable lists re-order their items after the drop
+      await this.waitForStateSettle();
+
+      if (outcome.cancelled) {
+        return {
+          success: false,
+          message: 'Drag was cancelled',
+          error: 'The page cancelled dragstart on the element',
+          data: { mode },
+        };
+      }
+
+      const dropRef = outcome.dropTarget ? this.registry.peekRef(outcome.dropTarget) : undefined;
+      const dropLabel = outcome.dropTarget
+        ? computeAccessibleName(outcome.dropTarget) || outcome.dropTarget.tagName.toLowerCase()
+        : 'nothing';
+      const data = {
+        mode,
+        from,
+        to: point,
+        dropTarget: dropRef ?? (outcome.dropTarget ? getDeepSelector(outcome.dropTarget) : null),
+        ...(outcome.accepted !== undefined ? { accepted: outcome.accepted } : {}),
+      };
+
+      if (outcome.accepted === false) {
+        return {
+          success: false,
+          message: 'Drop was not accepted',
+          error: `Nothing under the drop point (${dropLabel}) accepted the drop`,
+          data,
+        };
+      }
+
+      return {
+        success: true,
+        message: `Dragged onto ${dropLabel} (${mode})`,
+        data,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Drag failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute upload action: build the files described in parameters.files and
+   * assign them to the file input the element stands for, or drop them onto
+   * the element when it has no file input (or parameters.drop is set)
+   */
+  private async executeUpload(element: HTMLElement, parameters?: Record<string, unknown>): Promise<ActionResult> {
+    try {
+      const specs = parameters?.files;
+      if (!Array.isArray(specs) || specs.length === 0) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: 'No files provided for upload action',
+        };
+      }
+
+      const invalid = specs.find(spec =>
+        !spec || typeof spec !== 'object' || typeof spec.name !== 'string' || spec.name === '' || typeof spec.content !== 'string'
+      );
+      if (invalid !== undefined) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: 'Every file needs a name and a content string',
+        };
+      }
+
+      const view = element.ownerDocument.defaultView ?? window;
+      const files = createFiles(specs as UploadFile[], view);
+      const names = files.map(file => file.name);
+      const input = parameters?.drop === true ? null : findFileInput(element);
+
+      if (!input) {
+        if (!dropFiles(element, files)) {
+          return {
+            success: false,
+            message: 'Drop was not accepted',
+            error: 'The element has no file input and did not accept dropped files',
+          };
+        }
+
+        // Previews and validation messages appear once the page read the files
+        await this.waitForStateSettle();
+
+        return {
+          success: true,
+          message: `Dropped ${names.join(', ')}`,
+          data: { files: names, via: 'drop' },
+        };
+      }
+
+      if (input.disabled) {
+        return {
+          success: false,
+          message: 'Target element is disabled',
+          error: 'The file input is disabled',
+        };
+      }
+
+      if (files.length > 1 && !input.multiple) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: `The file input takes a single file (${files.length} given)`,
+        };
+      }
+
+      const rejected = input.accept ? files.filter(file => !isAccepted(input.accept, file)) : [];
+      if (rejected.length > 0) {
+        return {
+          success: false,
+          message: 'Invalid value',
+          error: `${rejected.map(file => `${file.name} (${file.type})`).join(', ')} not accepted; the input accepts ${input.accept}`,
+        };
+      }
+
+      setInputFiles(input, files);
+      await this.waitForStateSettle();
+
+      return {
+        success: true,
+        message: `Uploaded ${names.join(', ')}`,
+        data: {
+          files: names,
+          via: 'input',
+          ...(input !== element ? { input: this.registry.getRef(input) } : {}),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Upload failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Execute custom script
    */
@@ -0,0 +1,175 @@
+/**
+ * Files - Put files into file inputs and drop zones
+ *
+ * Scripts cannot open the file picker, but a File built in the page can be
+ * assigned to an input through a DataTransfer's file list, which is what
+ * the picker does, and the same DataTransfer carries files into a drop.
+ */
+
+import type { UploadFile } from '../types';
+import { isInstanceOf } from '../utils';
+
+/**
+ * MIME types guessed from file extensions
+ */
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  csv: 'text/csv',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * How many ancestors are searched for the file input behind an upload button
+ */
+const MAX_INPUT_SEARCH_DEPTH = 3;
+
+/**
+ * Build File objects from upload descriptions
+ */
+export function createFiles(specs: UploadFile[], view: Window = window): File[] {
+  return specs.map(spec => {
+    const content = spec.encoding === 'base64' ? decodeBase64(spec.content, view) : spec.content;
+    return new File([content], spec.name, {
+      type: spec.mimeType ?? guessMimeType(spec.name),
+      lastModified: Date.now(),
+    });
+  });
+}
+
+/**
+ * Find the file input an element stands for: the input itself, the control
+ * of a label, or the one file input inside it or a close ancestor (custom
+ * upload buttons usually hide the real input next to them)
+ */
+export function findFileInput(element: HTMLElement): HTMLInputElement | null {
+  if (isFileInput(element)) return element as HTMLInputElement;
+
+  if (isInstanceOf(element, HTMLLabelElement) && element.control && isFileInput(element.control)) {
+    return element.control as HTMLInputElement;
+  }
+
+  let scope: HTMLElement | null = element;
+  for (let depth = 0; scope && depth <= MAX_INPUT_SEARCH_DEPTH; depth++) {
+    const inputs = scope.querySelectorAll<HTMLInputElement>('input[type="file"]');
+    if (inputs.length === 1) return inputs[0];
+    if (inputs.length > 1) return null;
+    scope = scope.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * Assign files to a file input the way the file picker does, then fire
+ * input and change
+ */
+export function setInputFiles(input: HTMLInputElement, files: File[]): void {
+  const dataTransfer = new DataTransfer();
+  for (const file of files) {
+    dataTransfer.items.add(file);
+  }
+
+  input.files = dataTransfer.files;
+  input.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Drop files onto an element: dragenter, dragover and, when the element
+ * accepts it (cancels dragover), drop. Returns whether the drop was accepted.
+ */
+export function dropFiles(element: HTMLElement, files: File[]): boolean {
+  const dataTransfer = new DataTransfer();
+  for (const file of files) {
+    dataTransfer.items.add(file);
+  }
+  dataTransfer.effectAllowed = 'all';
+
+  const rect = element.getBoundingClientRect();
+  const init: DragEventInit = {
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    view: element.ownerDocument.defaultView ?? window,
+    clientX: rect.left + rect.width / 2,
+    clientY: rect.top + rect.height / 2,
+    dataTransfer,
+  };
+
+  element.dispatchEvent(new DragEvent('dragenter', init));
+  const accepted = !element.dispatchEvent(new DragEvent('dragover', init));
+  if (!accepted) {
+    element.dispatchEvent(new DragEvent('dragleave', { ...init, cancelable: false }));
+    return false;
+  }
+
+  dataTransfer.dropEffect = 'copy';
+  element.dispatchEvent(new DragEvent('drop', init));
+  return true;
+}
+
+/**
+ * Check a file against an input's accept attribute (extensions, MIME types
+ * and wildcards such as image/*)
+ */
+export function isAccepted(accept: string, file: File): boolean {
+  const patterns = accept.split(',').map(pattern => pattern.trim().toLowerCase()).filter(Boolean);
+  if (patterns.length === 0) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  return patterns.some(pattern => {
+    if (pattern.startsWith('.')) return name.endsWith(pattern);
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+/**
+ * Guess a MIME type from a file name
+ */
+function guessMimeType(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Decode base64 (data: URLs included) into bytes
+ */
+function decodeBase64(content: string, view: Window): ArrayBuffer {
+  const data = content.replace(/^data:[^,]*,/, '').replace(/\s+/g, '');
+  const binary = view.atob(data);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+}
+
+/**
+ * Check whether an element is a file input
+ */
+function isFileInput(element: Element): boolean {
+  return isInstanceOf(element, HTMLInputElement) && element.type === 'file';
+}
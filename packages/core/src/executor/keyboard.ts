@@ -0,0 +1,811 @@
+/**
+ * Keyboard - Enter text the way a user types it
+ *
+ * Assigning `value` and firing one `input` event is enough for plain
+ * controlled inputs, but input masks, autocompletes and validators that
+ * listen to `keydown` only work when every character arrives as its own
+ * keydown → keypress → beforeinput → input → keyup sequence. Listeners can
+ * cancel a character at any step, as they can in a real browser.
+ *
+ * Single key presses and shortcuts (Enter, Escape, ArrowDown, Control+K)
+ * go through the same events, followed by the default action a browser
+ * would take when nothing cancelled the key.
+ */
+
+import { isElementVisible, isInstanceOf } from '../utils';
+import { querySelectorAllDeep } from '../utils/deepQuery';
+import { followsElement, isInside } from '../utils/modal';
+
+/**
+ * Codes of the non-printable keys
+ */
+const NAMED_KEYS: Record<string, { code: string; keyCode: number }> = {
+  Enter: { code: 'Enter', keyCode: 13 },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  ' ': { code: 'Space', keyCode: 32 },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+  Control: { code: 'ControlLeft', keyCode: 17 },
+  Shift: { code: 'ShiftLeft', keyCode: 16 },
+  Alt: { code: 'AltLeft', keyCode: 18 },
+  Meta: { code: 'MetaLeft', keyCode: 91 },
+  ...Object.fromEntries(Array.from({ length: 12 }, (_, i) => [`F${i + 1}`, { code: `F${i + 1}`, keyCode: 112 + i }])),
+};
+
+/**
+ * Other names models and people use for keys (lowercase)
+ */
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'Escape',
+  return: 'Enter',
+  space: ' ',
+  spacebar: ' ',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  del: 'Delete',
+  pgup: 'PageUp',
+  pgdn: 'PageDown',
+};
+
+/**
+ * Modifier names in chords (lowercase); 'mod' is Meta on macOS and Control elsewhere
+ */
+const MODIFIER_ALIASES: Record<string, keyof KeyModifiers | 'mod'> = {
+  control: 'ctrl',
+  ctrl: 'ctrl',
+  shift: 'shift',
+  alt: 'alt',
+  option: 'alt',
+  meta: 'meta',
+  cmd: 'meta',
+  command: 'meta',
+  mod: 'mod',
+};
+
+/**
+ * Modifier key names, in the order they are pressed
+ */
+const MODIFIER_KEYS: Array<[keyof KeyModifiers, string]> = [
+  ['ctrl', 'Control'],
+  ['alt', 'Alt'],
+  ['shift', 'Shift'],
+  ['meta', 'Meta'],
+];
+
+/**
+ * Elements activated by Enter and Space
+ */
+const ACTIVATABLE_SELECTOR = 'button, a[href], summary, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [role="option"]';
+
+/**
+ * Elements that take focus with Tab
+ */
+const FOCUSABLE_SELECTOR = 'a[href], button, input, select, textarea, summary, iframe, [tabindex], [contenteditable=""], [contenteditable="true"]';
+
+/**
+ * Modifier keys held during a key press
+ */
+export interface KeyModifiers {
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+}
+
+/**
+ * A key with the modifiers held while pressing it, e.g. Control+K
+ */
+export interface KeyChord {
+  key: string;
+  modifiers: KeyModifiers;
+}
+
+/**
+ * What a key press did
+ */
+export interface PressOutcome {
+  /** A listener cancelled the key */
+  defaultPrevented: boolean;
+  /** Default action the browser would take, when one was performed */
+  performed?: 'insert' | 'delete' | 'submit' | 'click' | 'focus' | 'close';
+}
+
+/**
+ * Input types that are buttons or toggles rather than text fields
+ */
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'image', 'hidden', 'file', 'range', 'color'];
+
+const NO_MODIFIERS: KeyModifiers = { ctrl: false, shift: false, alt: false, meta: false };
+
+/**
+ * Options for entering text
+ */
+export interface TypeOptions {
+  /** Replace the current text (true) or append to it (false) */
+  clear: boolean;
+  /** Delay between characters in milliseconds */
+  delay: number;
+}
+
+/**
+ * Outcome of entering text
+ */
+export interface TypeOutcome {
+  /** The element's text afterwards */
+  value: string;
+  /** Characters dropped because of maxlength */
+  truncated: boolean;
+  /** Characters the page cancelled (e.g. an input mask rejecting letters) */
+  rejected: number;
+}
+
+/**
+ * A text field whose value can be set
+ */
+type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+/**
+ * Check whether an element takes typed text
+ */
+export function isTextTarget(element: HTMLElement): boolean {
+  return isInstanceOf(element, HTMLInputElement)
+    || isInstanceOf(element, HTMLTextAreaElement)
+    || element.isContentEditable;
+}
+
+/**
+ * Set the text of a field in one step: native value setter plus input and
+ * change events for controls, an editing command for contenteditable elements
+ */
+export function fillText(element: HTMLElement, text: string, options: Pick<TypeOptions, 'clear'>): TypeOutcome {
+  if (element.isContentEditable && !isControl(element)) {
+    element.focus();
+    selectContents(element, options.clear);
+
+    const doc = element.ownerDocument;
+    if (!doc.execCommand('insertText', false, text)) {
+      // Editors without execCommand support
+      element.textContent = options.clear ? text : (element.textContent || '') + text;
+      element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+    }
+
+    return { value: element.textContent || '', truncated: false, rejected: 0 };
+  }
+
+  const control = element as TextControl;
+  const current = options.clear ? '' : control.value;
+  const limit = getMaxLength(control);
+  const combined = current + text;
+  const value = limit !== null ? combined.slice(0, Math.max(limit, current.length)) : combined;
+
+  setNativeValue(control, value);
+  control.dispatchEvent(new Event('input', { bubbles: true }));
+  control.dispatchEvent(new Event('change', { bubbles: true }));
+
+  return { value: control.value, truncated: value.length < combined.length, rejected: 0 };
+}
+
+/**
+ * Type text character by character with the full keyboard event sequence
+ */
+export async function typeText(element: HTMLElement, text: string, options: TypeOptions): Promise<TypeOutcome> {
+  element.focus();
+
+  const editable = element.isContentEditable && !isControl(element);
+  if (options.clear) {
+    clear(element, editable);
+  } else if (editable) {
+    selectContents(element, false);
+  }
+
+  const control = editable ? null : element as TextControl;
+  const limit = control ? getMaxLength(control) : null;
+  const initialValue = control ? control.value : '';
+  let truncated = false;
+  let rejected = 0;
+
+  for (const char of Array.from(text)) {
+    if (control && limit !== null && control.value.length >= limit) {
+      truncated = true;
+      break;
+    }
+
+    if (!typeCharacter(element, control, char)) {
+      rejected++;
+    }
+
+    if (options.delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, options.delay));
+    }
+  }
+
+  // Browsers fire change when an edited control is committed
+  if (control && control.value !== initialValue) {
+    control.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+
+  return {
+    value: control ? control.value : element.textContent || '',
+    truncated,
+    rejected,
+  };
+}
+
+/**
+ * Parse a key chord such as 'Enter', 'Escape', 'Control+K', 'Shift+Tab' or 'Mod+S'.
+ * Returns null for an empty or unknown chord.
+ */
+export function parseKeyChord(chord: string): KeyChord | null {
+  // A literal "+" key is written as "+" or ending in "++" (e.g. "Control++")
+  const parts = chord === '+' ? ['+'] : chord.replace(/\+\+$/, '+plus').split('+').map(part => part.trim());
+  const modifiers: KeyModifiers = { ...NO_MODIFIERS };
+  let key: string | null = null;
+
+  for (const part of parts) {
+    const lower = part.toLowerCase();
+    const modifier = MODIFIER_ALIASES[lower];
+
+    if (modifier && part !== parts[parts.length - 1]) {
+      modifiers[modifier === 'mod' ? getModKey() : modifier] = true;
+      continue;
+    }
+
+    if (key !== null) return null;
+    key = lower === 'plus' ? '+' : normalizeKey(part);
+  }
+
+  if (!key) return null;
+
+  // Shift+letter produces the capital letter
+  if (modifiers.shift && /^[a-z]$/.test(key)) {
+    key = key.toUpperCase();
+  }
+
+  return { key, modifiers };
+}
+
+/**
+ * Parse modifier names held during a click (e.g. ['Shift'], ['Control', 'Alt'], ['Mod']).
+ * Returns null when a name is not a modifier.
+ */
+export function parseModifiers(names: string[]): KeyModifiers | null {
+  const modifiers: KeyModifiers = { ...NO_MODIFIERS };
+
+  for (const name of names) {
+    const modifier = MODIFIER_ALIASES[name.trim().toLowerCase()];
+    if (!modifier) return null;
+    modifiers[modifier === 'mod' ? getModKey() : modifier] = true;
+  }
+
+  return modifiers;
+}
+
+/**
+ * Press a key chord on an element: modifier keydowns, the key's keydown,
+ * keypress (for keys that produce a character), keyup and modifier keyups,
+ * then the browser's default action unless a listener cancelled the key
+ */
+export function pressKey(element: HTMLElement, chord: KeyChord): PressOutcome {
+  const { key, modifiers } = chord;
+  const held: KeyModifiers = { ...NO_MODIFIERS };
+
+  for (const [name, modifierKey] of MODIFIER_KEYS) {
+    if (!modifiers[name]) continue;
+    held[name] = true;
+    element.dispatchEvent(new KeyboardEvent('keydown', getKeyInit(modifierKey, held)));
+  }
+
+  const keyInit = getKeyInit(key, modifiers);
+  const producesCharacter = (key.length === 1 || key === 'Enter') && !modifiers.ctrl && !modifiers.meta && !modifiers.alt;
+
+  let allowed = element.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+  if (allowed && producesCharacter) {
+    allowed = element.dispatchEvent(new KeyboardEvent('keypress', keyInit));
+  }
+
+  // Text editing happens between keydown/keypress and keyup
+  let performed: PressOutcome['performed'];
+  if (allowed && !isModified(modifiers, ['shift'])) {
+    performed = editText(element, key);
+  }
+
+  element.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+
+  for (const [name, modifierKey] of [...MODIFIER_KEYS].reverse()) {
+    if (!modifiers[name]) continue;
+    held[name] = false;
+    element.dispatchEvent(new KeyboardEvent('keyup', getKeyInit(modifierKey, held)));
+  }
+
+  // Activation, focus moves and closing dialogs follow the key press
+  if (allowed && !performed) {
+    performed = performDefaultAction(element, key, modifiers);
+  }
+
+  return { defaultPrevented: !allowed, ...(performed ? { performed } : {}) };
+}
+
+/**
+ * Get the element keys go to: the focused element, looking into shadow roots
+ * and same-origin iframes, or the body when nothing is focused
+ */
+export function getFocusedElement(doc: Document = document): HTMLElement {
+  let active: Element | null = doc.activeElement;
+
+  while (active) {
+    if (active.shadowRoot?.activeElement) {
+      active = active.shadowRoot.activeElement;
+      continue;
+    }
+
+    if (isInstanceOf(active, HTMLIFrameElement)) {
+      try {
+        const inner = active.contentDocument?.activeElement;
+        if (inner && inner !== active.contentDocument?.body) {
+          active = inner;
+          continue;
+        }
+      } catch {
+        // Cross-origin frame
+      }
+    }
+
+    break;
+  }
+
+  return (active as HTMLElement | null) ?? doc.body;
+}
+
+/**
+ * Insert or delete text for keys that edit a text field
+ */
+function editText(element: HTMLElement, key: string): PressOutcome['performed'] {
+  const editable = element.isContentEditable && !isControl(element);
+  const control = isTextControl(element) ? element as TextControl : null;
+  if (!editable && !control) return undefined;
+
+  if (key === 'Backspace' || key === 'Delete') {
+    const inputType = key === 'Backspace' ? 'deleteContentBackward' : 'deleteContentForward';
+    if (!element.dispatchEvent(new InputEvent('beforeinput', { bubbles: true, cancelable: true, inputType }))) {
+      return undefined;
+    }
+
+    if (control) {
+      deleteFromControl(control, key === 'Backspace');
+      control.dispatchEvent(new InputEvent('input', { bubbles: true, inputType }));
+    } else if (!element.ownerDocument.execCommand(key === 'Backspace' ? 'delete' : 'forwardDelete')) {
+      return undefined;
+    }
+    return 'delete';
+  }
+
+  const isLineBreak = key === 'Enter';
+  if (key.length !== 1 && !isLineBreak) return undefined;
+
+  // Enter in a single-line field submits instead (see performDefaultAction)
+  if (isLineBreak && control && !isInstanceOf(control, HTMLTextAreaElement)) return undefined;
+
+  const char = isLineBreak ? '\n' : key;
+  const inputType = isLineBreak ? 'insertLineBreak' : 'insertText';
+  const data = isLineBreak ? null : key;
+  if (!element.dispatchEvent(new InputEvent('beforeinput', { bubbles: true, cancelable: true, inputType, data }))) {
+    return undefined;
+  }
+
+  if (control) {
+    const limit = getMaxLength(control);
+    if (limit !== null && control.value.length >= limit) return undefined;
+    insertIntoControl(control, char);
+    control.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data }));
+  } else {
+    insertIntoEditable(element, char, inputType, data);
+  }
+  return 'insert';
+}
+
+/**
+ * Take the browser's default action for a key that was not cancelled
+ */
+function performDefaultAction(element: HTMLElement, key: string, modifiers: KeyModifiers): PressOutcome['performed'] {
+  if (isModified(modifiers, key === 'Tab' ? ['shift'] : [])) return undefined;
+
+  switch (key) {
+    case 'Enter': {
+      if (isInstanceOf(element, HTMLInputElement) && element.form) {
+        return submitImplicitly(element.form) ? 'submit' : undefined;
+      }
+      if (element.matches(ACTIVATABLE_SELECTOR)) {
+        element.click();
+        return 'click';
+      }
+      return undefined;
+    }
+
+    case ' ': {
+      // Space activates buttons and toggles checkboxes and radios (text fields took the space already)
+      const isToggle = isInstanceOf(element, HTMLInputElement) && ['checkbox', 'radio', 'button', 'submit', 'reset', 'image'].includes(element.type);
+      if (isToggle || (!element.matches('a[href]') && element.matches(ACTIVATABLE_SELECTOR)) || element.matches('[role="checkbox"], [role="switch"], [role="radio"]')) {
+        element.click();
+        return 'click';
+      }
+      return undefined;
+    }
+
+    case 'Tab':
+      return moveFocus(element, modifiers.shift) ? 'focus' : undefined;
+
+    case 'Escape': {
+      // Open auto popovers are light-dismissed first, then a modal dialog is cancelled
+      const popovers = queryAllSafe(element.ownerDocument, '[popover]:not([popover="manual"]):popover-open');
+      const popover = popovers[popovers.length - 1];
+      if (popover) {
+        popover.hidePopover();
+        return 'close';
+      }
+
+      const modals = queryAllSafe(element.ownerDocument, 'dialog:modal') as HTMLDialogElement[];
+      const dialog = modals[modals.length - 1];
+      if (dialog) {
+        if (dialog.dispatchEvent(new Event('cancel', { cancelable: true }))) {
+          dialog.close();
+          return 'close';
+        }
+      }
+      return undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Submit a form the way Enter in one of its fields does: through its default
+ * button, or directly when it has no submit button and a single text field
+ */
+function submitImplicitly(form: HTMLFormElement): boolean {
+  const submitter = Array.from(form.elements).find(control =>
+    (isInstanceOf(control, HTMLButtonElement) && control.type === 'submit') ||
+    (isInstanceOf(control, HTMLInputElement) && (control.type === 'submit' || control.type === 'image'))
+  ) as HTMLButtonElement | HTMLInputElement | undefined;
+
+  if (submitter) {
+    if (submitter.disabled) return false;
+    submitter.click();
+    return true;
+  }
+
+  const textFields = Array.from(form.elements).filter(control =>
+    isInstanceOf(control, HTMLInputElement) && isTextControl(control)
+  );
+  if (textFields.length !== 1) return false;
+
+  form.requestSubmit();
+  return true;
+}
+
+/**
+ * Order two elements as they appear on the page, shadow roots included
+ */
+function compareDocumentOrder(a: HTMLElement, b: HTMLElement): number {
+  if (a === b) return 0;
+  if (isInside(a, b)) return -1;
+  if (isInside(b, a)) return 1;
+  return followsElement(a, b) ? -1 : 1;
+}
+
+/**
+ * Move focus to the next (or previous) element in tab order
+ */
+function moveFocus(from: HTMLElement, backwards: boolean): boolean {
+  // Fields inside open shadow roots take their host's place in the order
+  const candidates = querySelectorAllDeep(FOCUSABLE_SELECTOR, from.ownerDocument)
+    .filter(element => element === from || isTabbable(element))
+    .sort(compareDocumentOrder);
+
+  // Positive tabindex values come first, in their order; the rest follow in document order
+  const ordered = [
+    ...candidates.filter(element => element.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex),
+    ...candidates.filter(element => element.tabIndex <= 0),
+  ];
+
+  const index = ordered.indexOf(from);
+  const next = index === -1
+    ? ordered[backwards ? ordered.length - 1 : 0]
+    : ordered[index + (backwards ? -1 : 1)];
+  if (!next || next === from) return false;
+
+  next.focus();
+  return true;
+}
+
+/**
+ * Check whether an element can be reached with Tab
+ */
+function isTabbable(element: HTMLElement): boolean {
+  if (element.tabIndex < 0) return false;
+  if ((element as HTMLInputElement).disabled) return false;
+  if (isInstanceOf(element, HTMLInputElement) && element.type === 'hidden') return false;
+  if (element.closest('[inert]')) return false;
+  return isElementVisible(element);
+}
+
+/**
+ * Delete the character before (or after) the caret, or the selected text
+ */
+function deleteFromControl(control: TextControl, backwards: boolean): void {
+  const value = control.value;
+  const selection = getSelection(control) ?? { start: value.length, end: value.length };
+  let { start, end } = selection;
+
+  if (start === end) {
+    if (backwards) {
+      start = Math.max(0, start - 1);
+    } else {
+      end = Math.min(value.length, end + 1);
+    }
+  }
+
+  setNativeValue(control, value.slice(0, start) + value.slice(end));
+  if (getSelection(control)) {
+    control.setSelectionRange(start, start);
+  }
+}
+
+/**
+ * Normalize a key name: aliases, letters lowercase (as sent without Shift),
+ * other single characters as they are, named keys capitalized
+ */
+function normalizeKey(name: string): string {
+  if (name.length === 1) return /^[a-z]$/i.test(name) ? name.toLowerCase() : name;
+
+  const lower = name.toLowerCase();
+  if (KEY_ALIASES[lower]) return KEY_ALIASES[lower];
+
+  const named = Object.keys(NAMED_KEYS).find(key => key.toLowerCase() === lower);
+  return named ?? name;
+}
+
+/**
+ * Check whether modifiers other than the allowed ones are held
+ */
+function isModified(modifiers: KeyModifiers, allowed: Array<keyof KeyModifiers>): boolean {
+  return (Object.keys(modifiers) as Array<keyof KeyModifiers>)
+    .some(name => modifiers[name] && !allowed.includes(name));
+}
+
+/**
+ * Query with a selector that older browsers may not support (e.g. :popover-open)
+ */
+function queryAllSafe(doc: Document, selector: string): HTMLElement[] {
+  try {
+    return Array.from(doc.querySelectorAll<HTMLElement>(selector));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the modifier 'Mod' stands for: Meta on macOS, Control elsewhere
+ */
+function getModKey(): keyof KeyModifiers {
+  return /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent) ? 'meta' : 'ctrl';
+}
+
+/**
+ * Type one character; returns false when a listener cancelled it
+ */
+function typeCharacter(element: HTMLElement, control: TextControl | null, char: string): boolean {
+  const isLineBreak = char === '\n';
+  const key = isLineBreak ? 'Enter' : char;
+  const keyInit = getKeyInit(key);
+
+  const keydown = element.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+  const keypress = keydown && element.dispatchEvent(new KeyboardEvent('keypress', keyInit));
+  let inserted = false;
+
+  // A line break only goes into multi-line fields
+  const insertable = !isLineBreak || !control || isInstanceOf(control, HTMLTextAreaElement);
+
+  if (keydown && keypress && insertable) {
+    const inputType = isLineBreak ? 'insertLineBreak' : 'insertText';
+    const data = isLineBreak ? null : char;
+    const beforeInput = element.dispatchEvent(new InputEvent('beforeinput', {
+      bubbles: true,
+      cancelable: true,
+      inputType,
+      data,
+    }));
+
+    if (beforeInput) {
+      if (control) {
+        insertIntoControl(control, char);
+        control.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data }));
+      } else {
+        insertIntoEditable(element, char, inputType, data);
+      }
+      inserted = true;
+    }
+  }
+
+  element.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+
+  // Enter in a single-line field is a key press, not a rejected character
+  return inserted || !insertable;
+}
+
+/**
+ * Insert a character at the caret of an input or textarea
+ */
+function insertIntoControl(control: TextControl, char: string): void {
+  const selection = getSelection(control);
+  const value = control.value;
+
+  if (!selection) {
+    // Types without a text selection (email, number): characters are appended
+    setNativeValue(control, value + char);
+    return;
+  }
+
+  setNativeValue(control, value.slice(0, selection.start) + char + value.slice(selection.end));
+  const caret = selection.start + char.length;
+  control.setSelectionRange(caret, caret);
+}
+
+/**
+ * Insert a character at the caret of a contenteditable element
+ */
+function insertIntoEditable(element: HTMLElement, char: string, inputType: string, data: string | null): void {
+  const doc = element.ownerDocument;
+  const command = inputType === 'insertLineBreak' ? 'insertLineBreak' : 'insertText';
+
+  // execCommand fires the input event itself
+  if (doc.execCommand(command, false, data ?? undefined)) return;
+
+  const selection = doc.getSelection();
+  if (selection && selection.rangeCount > 0) {
+    const range = selection.getRangeAt(0);
+    range.deleteContents();
+    const node = inputType === 'insertLineBreak' ? doc.createElement('br') : doc.createTextNode(char);
+    range.insertNode(node);
+    range.setStartAfter(node);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  } else {
+    element.append(char);
+  }
+
+  element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data }));
+}
+
+/**
+ * Remove the current text as a select-all + delete would
+ */
+function clear(element: HTMLElement, editable: boolean): void {
+  if (editable) {
+    selectContents(element, true);
+    if (!element.ownerDocument.execCommand('delete')) {
+      element.textContent = '';
+      element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContentBackward' }));
+    }
+    return;
+  }
+
+  const control = element as TextControl;
+  if (control.value === '') return;
+
+  setNativeValue(control, '');
+  control.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContentBackward' }));
+}
+
+/**
+ * Select all contents of a contenteditable element, or put the caret at its end
+ */
+function selectContents(element: HTMLElement, all: boolean): void {
+  const selection = element.ownerDocument.getSelection();
+  if (!selection) return;
+
+  const range = element.ownerDocument.createRange();
+  range.selectNodeContents(element);
+  if (!all) {
+    range.collapse(false);
+  }
+
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+/**
+ * Set a control's value through the native setter, so frameworks that track
+ * the value (React) notice the change
+ */
+function setNativeValue(control: TextControl, value: string): void {
+  const prototype = isInstanceOf(control, HTMLTextAreaElement) ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+
+  if (setter) {
+    setter.call(control, value);
+  } else {
+    control.value = value;
+  }
+}
+
+/**
+ * Get the selected range of a control, or null for input types without one
+ */
+function getSelection(control: TextControl): { start: number; end: number } | null {
+  try {
+    if (control.selectionStart === null || control.selectionEnd === null) return null;
+    return { start: control.selectionStart, end: control.selectionEnd };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the maxlength of a control, or null when it has none
+ */
+function getMaxLength(control: TextControl): number | null {
+  return control.maxLength >= 0 ? control.maxLength : null;
+}
+
+/**
+ * Check whether an element is an input or textarea
+ */
+function isControl(element: HTMLElement): boolean {
+  return isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLTextAreaElement);
+}
+
+/**
+ * Check whether an element is a textarea or an input that takes text
+ */
+function isTextControl(element: HTMLElement): boolean {
+  return isInstanceOf(element, HTMLTextAreaElement)
+    || (isInstanceOf(element, HTMLInputElement) && !NON_TEXT_INPUT_TYPES.includes(element.type));
+}
+
+/**
+ * Build the keyboard event init for a key, including the legacy codes
+ * older validators read
+ */
+function getKeyInit(key: string, modifiers: KeyModifiers = NO_MODIFIERS): KeyboardEventInit {
+  const named = NAMED_KEYS[key];
+  let code = named?.code ?? '';
+  if (!named) {
+    if (/^[a-z]$/i.test(key)) {
+      code = `Key${key.toUpperCase()}`;
+    } else if (/^[0-9]$/.test(key)) {
+      code = `Digit${key}`;
+    }
+  }
+
+  const keyCode = named?.keyCode ?? key.toUpperCase().charCodeAt(0);
+  const printable = key.length === 1;
+
+  return {
+    key,
+    code,
+    keyCode,
+    which: keyCode,
+    charCode: printable ? key.charCodeAt(0) : key === 'Enter' ? 13 : 0,
+    ctrlKey: modifiers.ctrl,
+    shiftKey: modifiers.shift,
+    altKey: modifiers.alt,
+    metaKey: modifiers.meta,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+  };
+}
@@ -0,0 +1,371 @@
+/**
+ * Pointer - Drag elements the way a mouse does
+ *
+ * Native drag and drop (draggable="true") only reacts to the HTML5 drag
+ * events, which carry a DataTransfer from dragstart to drop. Libraries such
+ * as dnd-kit or react-beautiful-dnd ignore those and track the pointer
+ * instead, so they need pointerdown, a series of pointermoves (past their
+ * activation distance) and pointerup, with mouse events alongside.
+ *
+ * Clicks go through the same pointer and mouse events at real coordinates,
+ * so double-click editors, context menus and canvas-like widgets that read
+ * clientX/clientY see what a mouse would produce.
+ */
+
+import type { KeyModifiers } from './keyboard';
+
+/**
+ * MouseEvent.button and MouseEvent.buttons of each mouse button
+ */
+const MOUSE_BUTTONS = {
+  left: { button: 0, buttons: 1 },
+  middle: { button: 1, buttons: 4 },
+  right: { button: 2, buttons: 2 },
+} as const;
+
+/**
+ * Elements that take focus when pressed
+ */
+const FOCUSABLE_SELECTOR = 'a[href], button, input, select, textarea, summary, iframe, [tabindex], [contenteditable=""], [contenteditable="true"]';
+
+/**
+ * A point in the client coordinates of an element's own window
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * How pointer-mode drags move between the start and end points
+ */
+export interface PointerDragOptions {
+  /** Number of intermediate moves */
+  steps: number;
+  /** Milliseconds between moves, so libraries see the pointer travel */
+  delay: number;
+}
+
+/**
+ * How to click an element
+ */
+export interface ClickOptions {
+  button: MouseButton;
+  /** 2 for a double click, 3 for a triple click */
+  clickCount: number;
+  modifiers: KeyModifiers;
+  /** Offset from the element's top-left corner (default: its center) */
+  position?: Point;
+}
+
+/**
+ * A mouse button
+ */
+export type MouseButton = keyof typeof MOUSE_BUTTONS;
+
+/**
+ * What a click did
+ */
+export interface ClickOutcome {
+  /** Where the click landed, in client coordinates */
+  point: Point;
+  /** Element that received the events (the target or a descendant under the point) */
+  target: HTMLElement;
+  /** A listener cancelled mousedown, click or contextmenu */
+  defaultPrevented: boolean;
+}
+
+/**
+ * What a drag did
+ */
+export interface DragOutcome {
+  /** Element under the end point when the pointer was released */
+  dropTarget: HTMLElement | null;
+  /** HTML5 only: whether the drop target accepted the drop (cancelled dragover) */
+  accepted?: boolean;
+  /** HTML5 only: set when a dragstart listener cancelled the drag */
+  cancelled?: boolean;
+}
+
+/**
+ * Get the center of an element in client coordinates
+ */
+export function getElementCenter(element: HTMLElement): Point {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: rect.left + rect.width / 2,
+    y: rect.top + rect.height / 2,
+  };
+}
+
+/**
+ * Get the element a pointer at a point would hit, or the fallback when the
+ * point is outside the viewport
+ */
+export function getElementAt(doc: Document, point: Point, fallback: HTMLElement): HTMLElement {
+  const hit = doc.elementFromPoint(point.x, point.y);
+  return (hit as HTMLElement | null) ?? fallback;
+}
+
+/**
+ * Click an element the way a mouse does: move onto it, then for each click
+ * pointerdown, mousedown (which focuses), pointerup, mouseup and click, with
+ * dblclick after the second click. Other buttons fire auxclick instead of
+ * click, and the right button opens the context menu (contextmenu) on press.
+ */
+export function clickElement(element: HTMLElement, options: ClickOptions): ClickOutcome {
+  const rect = element.getBoundingClientRect();
+  const point = options.position
+    ? { x: rect.left + options.position.x, y: rect.top + options.position.y }
+    : getElementCenter(element);
+
+  // Events go to the descendant under the point (e.g. a cell of a grid row)
+  const hit = element.ownerDocument.elementFromPoint(point.x, point.y) as HTMLElement | null;
+  const target = hit && element.contains(hit) ? hit : element;
+
+  const { button, buttons } = MOUSE_BUTTONS[options.button];
+  const modifiers = {
+    ctrlKey: options.modifiers.ctrl,
+    shiftKey: options.modifiers.shift,
+    altKey: options.modifiers.alt,
+    metaKey: options.modifiers.meta,
+  };
+  let defaultPrevented = false;
+
+  dispatchPointer(target, 'pointerover', point, 0, modifiers);
+  dispatchPointer(target, 'pointerenter', point, 0, { ...modifiers, bubbles: false });
+  dispatchMouse(target, 'mouseover', point, 0, modifiers);
+  dispatchMouse(target, 'mouseenter', point, 0, { ...modifiers, bubbles: false });
+  dispatchPointer(target, 'pointermove', point, 0, modifiers);
+  dispatchMouse(target, 'mousemove', point, 0, modifiers);
+
+  for (let count = 1; count <= options.clickCount; count++) {
+    const pressed = { ...modifiers, button, detail: count };
+
+    dispatchPointer(target, 'pointerdown', point, buttons, { ...pressed, detail: 0 });
+    if (dispatchMouse(target, 'mousedown', point, buttons, pressed)) {
+      const focusable = target.closest<HTMLElement>(FOCUSABLE_SELECTOR);
+      if (focusable && focusable !== target.ownerDocument.activeElement) {
+        focusable.focus({ preventScroll: true });
+      }
+    } else {
+      defaultPrevented = true;
+    }
+
+    if (options.button === 'right' && !dispatchMouse(target, 'contextmenu', point, buttons, pressed)) {
+      defaultPrevented = true;
+    }
+
+    dispatchPointer(target, 'pointerup', point, 0, { ...pressed, detail: 0 });
+    dispatchMouse(target, 'mouseup', point, 0, pressed);
+
+    // A dispatched click runs activation behavior (links, checkboxes, submit buttons)
+    const clickType = options.button === 'left' ? 'click' : 'auxclick';
+    if (!dispatchMouse(target, clickType, point, 0, pressed)) {
+      defaultPrevented = true;
+    }
+
+    if (count === 2 && options.button === 'left') {
+      dispatchMouse(target, 'dblclick', point, 0, pressed);
+    }
+  }
+
+  return { point, target, defaultPrevented };
+}
+
+/**
+ * Drag with HTML5 drag and drop: dragstart and drag on the source,
+ * dragenter/dragover on the elements passed over, then drop (when a
+ * dragover was cancelled, as drop targets do) and dragend
+ */
+export function dragHtml5(source: HTMLElement, from: Point, to: Point, destination: HTMLElement | null): DragOutcome {
+  const doc = source.ownerDocument;
+  const dataTransfer = createDataTransfer();
+
+  dispatchPointer(source, 'pointerdown', from, 1);
+  dispatchMouse(source, 'mousedown', from, 1);
+
+  if (!dispatchDrag(source, 'dragstart', from, dataTransfer, true)) {
+    dispatchMouse(source, 'mouseup', from, 0);
+    return { dropTarget: null, cancelled: true };
+  }
+
+  // Once the drag starts the browser cancels the pointer stream
+  dispatchPointer(source, 'pointercancel', from, 0);
+
+  let current: HTMLElement | null = null;
+  let accepted = false;
+
+  for (const point of [from, midpoint(from, to), to]) {
+    dispatchDrag(source, 'drag', point, dataTransfer, true);
+
+    const isLast = point === to;
+    const over = getElementAt(doc, point, isLast && destination ? destination : source);
+    if (over !== current) {
+      dispatchDrag(over, 'dragenter', point, dataTransfer, true);
+      if (current) dispatchDrag(current, 'dragleave', point, dataTransfer, false);
+      current = over;
+    }
+
+    // Drop targets cancel dragover to accept the drop
+    accepted = !dispatchDrag(over, 'dragover', point, dataTransfer, true);
+  }
+
+  if (accepted && current) {
+    if (dataTransfer && dataTransfer.dropEffect === 'none') {
+      dataTransfer.dropEffect = chooseDropEffect(dataTransfer.effectAllowed);
+    }
+    dispatchDrag(current, 'drop', to, dataTransfer, true);
+  } else {
+    if (current) dispatchDrag(current, 'dragleave', to, dataTransfer, false);
+    if (dataTransfer) {
+      dataTransfer.dropEffect = 'none';
+    }
+  }
+
+  dispatchDrag(source, 'dragend', to, dataTransfer, false);
+
+  return { dropTarget: current, accepted };
+}
+
+/**
+ * Drag with pointer and mouse events: press on the source, move in steps
+ * to the end point over whatever lies beneath, and release there
+ */
+export async function dragPointer(
+  source: HTMLElement,
+  from: Point,
+  to: Point,
+  destination: HTMLElement | null,
+  options: PointerDragOptions
+): Promise<DragOutcome> {
+  const doc = source.ownerDocument;
+
+  dispatchPointer(source, 'pointerover', from, 0);
+  dispatchPointer(source, 'pointerdown', from, 1);
+  dispatchMouse(source, 'mousedown', from, 1);
+  await wait(options.delay);
+
+  // One extra move at the end point lets libraries update collisions after the last frame
+  for (let step = 1; step <= options.steps + 1; step++) {
+    const progress = Math.min(step / options.steps, 1);
+    const point = {
+      x: from.x + (to.x - from.x) * progress,
+      y: from.y + (to.y - from.y) * progress,
+    };
+    const over = getElementAt(doc, point, progress === 1 && destination ? destination : source);
+
+    dispatchPointer(over, 'pointermove', point, 1);
+    dispatchMouse(over, 'mousemove', point, 1);
+    await wait(options.delay);
+  }
+
+  const dropTarget = getElementAt(doc, to, destination ?? source);
+  dispatchPointer(dropTarget, 'pointerup', to, 0);
+  dispatchMouse(dropTarget, 'mouseup', to, 0);
+
+  return { dropTarget };
+}
+
+/**
+ * Dispatch a pointer event (a mouse event where PointerEvent is unavailable)
+ */
+function dispatchPointer(target: HTMLElement, type: string, point: Point, buttons: number, extra?: MouseEventInit): boolean {
+  const init: PointerEventInit = {
+    ...getMouseInit(target, point, buttons, extra),
+    pointerId: 1,
+    pointerType: 'mouse',
+    isPrimary: true,
+  };
+
+  return target.dispatchEvent(typeof PointerEvent !== 'undefined' ? new PointerEvent(type, init) : new MouseEvent(type, init));
+}
+
+/**
+ * Dispatch a mouse event
+ */
+function dispatchMouse(target: HTMLElement, type: string, point: Point, buttons: number, extra?: MouseEventInit): boolean {
+  return target.dispatchEvent(new MouseEvent(type, getMouseInit(target, point, buttons, extra)));
+}
+
+/**
+ * Build the shared init of mouse, pointer and drag events at a point
+ */
+function getMouseInit(target: HTMLElement, point: Point, buttons: number, extra?: MouseEventInit): MouseEventInit {
+  const view = target.ownerDocument.defaultView ?? window;
+  return {
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    view,
+    clientX: point.x,
+    clientY: point.y,
+    screenX: point.x + (view.screenX ?? 0),
+    screenY: point.y + (view.screenY ?? 0),
+    button: 0,
+    buttons,
+    ...extra,
+  };
+}
+
+/**
+ * Dispatch a drag event carrying the drag's DataTransfer
+ */
+function dispatchDrag(
+  target: HTMLElement,
+  type: string,
+  point: Point,
+  dataTransfer: DataTransfer | null,
+  cancelable: boolean
+): boolean {
+  const init: DragEventInit = {
+    ...getMouseInit(target, point, type === 'dragend' || type === 'drop' ? 0 : 1),
+    cancelable,
+    dataTransfer,
+  };
+
+  if (typeof DragEvent !== 'undefined') {
+    return target.dispatchEvent(new DragEvent(type, init));
+  }
+
+  // Browsers without a DragEvent constructor: a mouse event with the data attached
+  const event = new MouseEvent(type, init);
+  Object.defineProperty(event, 'dataTransfer', { value: dataTransfer });
+  return target.dispatchEvent(event);
+}
+
+/**
+ * Create an empty DataTransfer, or null where it cannot be constructed
+ */
+function createDataTransfer(): DataTransfer | null {
+  try {
+    return new DataTransfer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick the drop effect a browser would use for the source's effectAllowed
+ */
+function chooseDropEffect(effectAllowed: string): DataTransfer['dropEffect'] {
+  const allowed = effectAllowed.toLowerCase();
+  if (allowed === 'all' || allowed === 'uninitialized' || allowed.includes('move')) return 'move';
+  if (allowed.includes('copy')) return 'copy';
+  if (allowed.includes('link')) return 'link';
+  return 'none';
+}
+
+/**
+ * Get the point halfway between two points
+ */
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Wait between pointer moves
+ */
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
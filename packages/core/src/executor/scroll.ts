@@ -0,0 +1,162 @@
+/**
+ * Scroll - Move through long pages, feeds and overflow containers
+ *
+ * Scrolls are instant so positions can be measured right after them. A
+ * container counts as at its end when it cannot move further; infinite
+ * scroll lists load more content once they get there, so the end is only
+ * final when nothing new arrives within the wait.
+ */
+
+/**
+ * Directions a container can be scrolled in
+ */
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * A scroll position
+ */
+export interface ScrollPosition {
+  left: number;
+  top: number;
+}
+
+/**
+ * Share of the visible height (or width) scrolled per page, so some content
+ * stays in view across pages
+ */
+const PAGE_OVERLAP_FACTOR = 0.9;
+
+/**
+ * How long to wait for lazily rendered content after a scroll that did not
+ * reach the end
+ */
+const RENDER_WAIT_MS = 50;
+
+/**
+ * Get the element that scrolls the document
+ */
+export function getDocumentScroller(doc: Document): HTMLElement {
+  return (doc.scrollingElement as HTMLElement | null) ?? doc.documentElement;
+}
+
+/**
+ * Get the scroll position of a container
+ */
+export function getScrollPosition(scroller: HTMLElement): ScrollPosition {
+  return { left: scroller.scrollLeft, top: scroller.scrollTop };
+}
+
+/**
+ * Get the size of a page in a direction: most of the visible height or width
+ */
+export function getPageSize(scroller: HTMLElement, direction: ScrollDirection): number {
+  const size = isVertical(direction) ? scroller.clientHeight : scroller.clientWidth;
+  return Math.max(1, Math.round(size * PAGE_OVERLAP_FACTOR));
+}
+
+/**
+ * Scroll a container by a number of pixels in a direction
+ */
+export function scrollByPixels(scroller: HTMLElement, direction: ScrollDirection, pixels: number): void {
+  const sign = direction === 'up' || direction === 'left' ? -1 : 1;
+  scroller.scrollBy({
+    top: isVertical(direction) ? sign * pixels : 0,
+    left: isVertical(direction) ? 0 : sign * pixels,
+    behavior: 'instant' as ScrollBehavior,
+  });
+}
+
+/**
+ * Scroll a container all the way in a direction
+ */
+export function scrollToEnd(scroller: HTMLElement, direction: ScrollDirection): void {
+  const position: ScrollToOptions = { behavior: 'instant' as ScrollBehavior };
+  if (direction === 'up') position.top = 0;
+  if (direction === 'down') position.top = scroller.scrollHeight;
+  if (direction === 'left') position.left = 0;
+  if (direction === 'right') position.left = scroller.scrollWidth;
+  scroller.scrollTo(position);
+}
+
+/**
+ * Check whether a container cannot scroll any further in a direction
+ */
+export function isAtEnd(scroller: HTMLElement, direction: ScrollDirection): boolean {
+  switch (direction) {
+    case 'up':
+      return scroller.scrollTop <= 0;
+    case 'left':
+      return scroller.scrollLeft <= 0;
+    case 'down':
+      return scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1;
+    case 'right':
+      return scroller.scrollLeft + scroller.clientWidth >= scroller.scrollWidth - 1;
+  }
+}
+
+/**
+ * Wait for content to be added to a container after a scroll. Waits the full
+ * timeout when the container reached its end (where infinite scroll lists
+ * load more), only a moment otherwise. Resolves whether anything was added.
+ */
+export function waitForNewContent(scroller: HTMLElement, direction: ScrollDirection, timeout: number): Promise<boolean> {
+  const doc = scroller.ownerDocument;
+  const root = scroller === getDocumentScroller(doc) ? doc.body : scroller;
+  const wait = isAtEnd(scroller, direction) ? timeout : Math.min(timeout, RENDER_WAIT_MS);
+
+  return new Promise(resolve => {
+    const observer = new MutationObserver(records => {
+      if (records.some(record => record.addedNodes.length > 0)) {
+        observer.disconnect();
+        clearTimeout(timer);
+        resolve(true);
+      }
+    });
+    const timer = setTimeout(() => {
+      observer.disconnect();
+      resolve(false);
+    }, wait);
+
+    observer.observe(root, { childList: true, subtree: true });
+  });
+}
+
+/**
+ * Find the innermost element inside a root whose text contains the
+ * given text (case-insensitive), or null
+ */
+export function findElementWithText(root: HTMLElement, text: string): HTMLElement | null {
+  const needle = normalize(text);
+  if (!needle || !normalize(root.textContent || '').includes(needle)) return null;
+
+  let match: HTMLElement = root;
+  let descended = true;
+
+  // Descend into the child holding the text as long as one does
+  while (descended) {
+    descended = false;
+    for (const child of Array.from(match.children)) {
+      if (normalize(child.textContent || '').includes(needle)) {
+        match = child as HTMLElement;
+        descended = true;
+        break;
+      }
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Check whether a direction is vertical
+ */
+function isVertical(direction: ScrollDirection): boolean {
+  return direction === 'up' || direction === 'down';
+}
+
+/**
+ * Collapse whitespace and lowercase for text comparison
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
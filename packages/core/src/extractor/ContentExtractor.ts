@@ -0,0 +1,311 @@
+/**
+ * Content Extractor - Extract the readable, non-interactive content of a page
+ *
+ * The scanner lists what can be operated; this pass collects what the page
+ * says: the heading outline, the text of the main content, definition lists
+ * and "Label: value" rows such as prices and order status. Everything is
+ * kept in document order until the length budget runs out.
+ */
+
+import type { ContentBlockKind, ContentPair, PageContent, UUICSConfig } from '../types';
+import { isElementVisible } from '../utils';
+import { computeAccessibleName, getElementRole } from '../utils/accessibility';
+import { getHeadingLevel } from '../scanner/sections';
+
+/**
+ * Content extractor configuration
+ */
+interface ContentExtractorConfig {
+  maxLength: number;
+  skipTables: boolean;
+  excludeSelectors: string[];
+}
+
+/**
+ * Characters still available while extracting
+ */
+interface ExtractionBudget {
+  remaining: number;
+}
+
+/**
+ * Elements whose text is never content
+ */
+const SKIP_SELECTOR = 'script, style, noscript, template, svg, canvas, iframe, object';
+
+/**
+ * Interactive elements: their text is already exposed through UIElement labels
+ */
+const CONTROL_SELECTOR = [
+  'button', 'a[href]', 'input', 'select', 'textarea', 'label', 'option',
+  '[role="button"]', '[role="link"]', '[role="menuitem"]', '[role="tab"]', '[role="option"]',
+].join(', ');
+
+/**
+ * Tables and ARIA grids, extracted separately by the TableExtractor
+ */
+const TABLE_SELECTOR = 'table, [role="table"], [role="grid"], [role="treegrid"]';
+
+/**
+ * Elements that break text into separate blocks. An element without any
+ * of these below it is read as a single block (links stay part of the text).
+ */
+const BLOCK_SELECTOR = [
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'fieldset',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li',
+  'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul', '[role="heading"]',
+  'button', 'input', 'select', 'textarea', '[role="button"]',
+].join(', ');
+
+/**
+ * Landmarks around the main content (navigation, header, footer, sidebar)
+ */
+const NON_MAIN_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search']);
+
+/**
+ * Block kinds by tag name (other elements are plain text)
+ */
+const BLOCK_KINDS: Record<string, ContentBlockKind> = {
+  li: 'list',
+  blockquote: 'quote',
+  pre: 'code',
+};
+
+/**
+ * Block texts longer than this are truncated
+ */
+const MAX_BLOCK_LENGTH = 500;
+
+/**
+ * Longest label recognized in a "Label: value" row
+ */
+const MAX_KEY_LENGTH = 40;
+
+/**
+ * Content Extractor class
+ */
+export class ContentExtractor {
+  private config: ContentExtractorConfig;
+
+  constructor(config?: Partial<UUICSConfig>) {
+    const exclude = config?.scan?.excludeSelectors;
+    this.config = {
+      maxLength: config?.extract?.maxContentLength ?? 4000,
+      skipTables: config?.extract?.tables !== false,
+      excludeSelectors: (typeof exclude === 'string' ? exclude.split(',') : exclude ?? [])
+        .map(s => s.trim())
+        .filter(s => s.length > 0),
+    };
+  }
+
+  /**
+   * Extract the outline and main content of a document
+   */
+  extract(root: Document = document): PageContent {
+    const content: PageContent = { headings: [], blocks: [], pairs: [], truncated: false };
+    if (!root.body) return content;
+
+    // Without a main landmark everything outside the surrounding landmarks is main content
+    const hasMain = root.querySelector('main, [role="main"]') !== null;
+    this.walk(root.body, !hasMain, content, { remaining: this.config.maxLength });
+
+    return content;
+  }
+
+  /**
+   * Collect headings anywhere and text inside the main content, in document order
+   */
+  private walk(element: HTMLElement, inMain: boolean, content: PageContent, budget: ExtractionBudget): void {
+    if (content.truncated || !this.isReadable(element)) return;
+
+    const role = getElementRole(element);
+
+    if (role === 'heading') {
+      const text = this.normalize(computeAccessibleName(element));
+      const level = getHeadingLevel(element);
+      if (text && this.consume(text, content, budget)) {
+        content.headings.push({ level, text });
+        if (inMain) {
+          content.blocks.push({ kind: 'heading', text, level });
+        }
+      }
+      return;
+    }
+
+    if (element.matches(CONTROL_SELECTOR)) return;
+    if (this.config.skipTables && element.matches(TABLE_SELECTOR)) return;
+
+    if (role === 'main') {
+      inMain = true;
+    } else if (role && NON_MAIN_ROLES.has(role)) {
+      inMain = false;
+    }
+
+    if (inMain) {
+      if (element.tagName === 'DL') {
+        this.extractDefinitionList(element, content, budget);
+        return;
+      }
+
+      if (!element.shadowRoot && !element.querySelector(BLOCK_SELECTOR)) {
+        this.extractBlock(element, role, content, budget);
+        return;
+      }
+
+      // Text mixed in between blocks, e.g. "<div>Total <p>...</p></div>"
+      const looseText = this.normalize(
+        Array.from(element.childNodes)
+          .filter(node => node.nodeType === Node.TEXT_NODE)
+          .map(node => node.textContent || '')
+          .join(' ')
+      );
+      if (looseText) {
+        this.addBlock('text', looseText, content, budget);
+      }
+    }
+
+    const children = Array.from(element.children);
+    if (element.shadowRoot) {
+      children.push(...Array.from(element.shadowRoot.children));
+    }
+
+    for (const child of children) {
+      this.walk(child as HTMLElement, inMain, content, budget);
+    }
+  }
+
+  /**
+   * Add an element without nested blocks as a key-value pair or a text block
+   */
+  private extractBlock(element: HTMLElement, role: string | null, content: PageContent, budget: ExtractionBudget): void {
+    const text = this.normalize(element.textContent || '');
+    if (!text) return;
+
+    const pair = this.getPair(element, text);
+    if (pair) {
+      if (this.consume(pair.key + pair.value, content, budget)) {
+        content.pairs.push(pair);
+      }
+      return;
+    }
+
+    const kind = role === 'status' || role === 'alert'
+      ? 'status'
+      : BLOCK_KINDS[element.tagName.toLowerCase()] ?? 'text';
+    this.addBlock(kind, text, content, budget);
+  }
+
+  /**
+   * Add the terms of a definition list as key-value pairs
+   */
+  private extractDefinitionList(list: HTMLElement, content: PageContent, budget: ExtractionBudget): void {
+    // Terms may be wrapped in <div> groups
+    const items = Array.from(list.querySelectorAll<HTMLElement>('dt, dd'))
+      .filter(item => item.closest('dl') === list);
+    let key = '';
+    let values: string[] = [];
+
+    const flush = () => {
+      if (key && values.length > 0) {
+        const value = values.join(', ');
+        if (this.consume(key + value, content, budget)) {
+          content.pairs.push({ key, value });
+        }
+      }
+      values = [];
+    };
+
+    for (const item of items) {
+      if (!isElementVisible(item)) continue;
+
+      const text = this.normalize(item.textContent || '');
+      if (item.tagName === 'DT') {
+        flush();
+        key = text.replace(/:$/, '');
+      } else if (text) {
+        values.push(text);
+      }
+    }
+
+    flush();
+  }
+
+  /**
+   * Read a "Label: value" row: the first child element is a label ending
+   * with a colon and the rest of the text is its value
+   */
+  private getPair(element: HTMLElement, text: string): ContentPair | null {
+    const first = element.firstElementChild;
+    if (!first) return null;
+
+    const label = this.normalize(first.textContent || '');
+    if (!label.endsWith(':') || label.length > MAX_KEY_LENGTH + 1 || !text.startsWith(label)) {
+      return null;
+    }
+
+    const key = label.slice(0, -1).trim();
+    const value = this.truncate(text.slice(label.length).trim());
+    return key && value ? { key, value } : null;
+  }
+
+  /**
+   * Add a text block, skipping repeats of the previous block
+   */
+  private addBlock(kind: ContentBlockKind, text: string, content: PageContent, budget: ExtractionBudget): void {
+    const previous = content.blocks[content.blocks.length - 1];
+    if (previous && previous.text === text) return;
+
+    const truncated = this.truncate(text);
+    if (this.consume(truncated, content, budget)) {
+      content.blocks.push({ kind, text: truncated });
+    }
+  }
+
+  /**
+   * Take text from the budget, marking the content truncated when it does not fit
+   */
+  private consume(text: string, content: PageContent, budget: ExtractionBudget): boolean {
+    if (text.length > budget.remaining) {
+      content.truncated = true;
+      return false;
+    }
+
+    budget.remaining -= text.length;
+    return true;
+  }
+
+  /**
+   * Check whether an element is shown and may contain content
+   */
+  private isReadable(element: HTMLElement): boolean {
+    if (element.matches(SKIP_SELECTOR)) return false;
+    if (element.getAttribute('aria-hidden') === 'true') return false;
+
+    for (const selector of this.config.excludeSelectors) {
+      if (element.matches(selector)) return false;
+    }
+
+    return isElementVisible(element);
+  }
+
+  /**
+   * Collapse whitespace
+   */
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Truncate long block texts
+   */
+  private truncate(text: string): string {
+    return text.length > MAX_BLOCK_LENGTH ? `${text.substring(0, MAX_BLOCK_LENGTH)}…` : text;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<ContentExtractorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Table Extractor - Extract header, row and cell data from tables and data grids
+ */
+
+import type { TableData, TableRow, TableRowAction, UUICSConfig } from '../types';
+import { isElementVisible, isInstanceOf } from '../utils';
+import { computeAccessibleName, getElementRole } from '../utils/accessibility';
+import { getDeepSelector } from '../utils/deepQuery';
+import { ElementRegistry } from '../registry';
+
+/**
+ * Table extractor configuration
+ */
+interface TableExtractorConfig {
+  maxTables: number;
+  maxRows: number;
+  excludeSelectors: string[];
+}
+
+/**
+ * Tables and ARIA grids that hold data
+ */
+const TABLE_SELECTOR = 'table, [role="table"], [role="grid"], [role="treegrid"]';
+
+/**
+ * Interactive elements listed as row actions
+ */
+const ROW_ACTION_SELECTOR = [
+  'button', 'a[href]', 'input:not([type="hidden"])', 'select', 'textarea',
+  '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="switch"]', '[role="menuitem"]',
+].join(', ');
+
+/**
+ * Cell texts longer than this are truncated
+ */
+const MAX_CELL_LENGTH = 200;
+
+/**
+ * Table Extractor class
+ */
+export class TableExtractor {
+  private config: TableExtractorConfig;
+  private registry: ElementRegistry;
+
+  constructor(config?: Partial<UUICSConfig>, registry?: ElementRegistry) {
+    this.registry = registry ?? new ElementRegistry();
+
+    const exclude = config?.scan?.excludeSelectors;
+    this.config = {
+      maxTables: config?.extract?.maxTables ?? 10,
+      maxRows: config?.extract?.maxTableRows ?? 100,
+      excludeSelectors: (typeof exclude === 'string' ? exclude.split(',') : exclude ?? [])
+        .map(s => s.trim())
+        .filter(s => s.length > 0),
+    };
+  }
+
+  /**
+   * Extract all visible data tables under a root
+   */
+  extract(root: ParentNode = document): TableData[] {
+    const tables: TableData[] = [];
+
+    for (const element of Array.from(root.querySelectorAll<HTMLElement>(TABLE_SELECTOR))) {
+      if (tables.length >= this.config.maxTables) break;
+      if (!this.isDataTable(element)) continue;
+
+      const table = this.extractTable(element);
+      if (table.rows.length > 0 || table.headers.length > 0) {
+        tables.push(table);
+      }
+    }
+
+    return tables;
+  }
+
+  /**
+   * Check whether a table holds data (not layout) and should be extracted
+   */
+  private isDataTable(element: HTMLElement): boolean {
+    const role = element.getAttribute('role');
+    if (role === 'presentation' || role === 'none') return false;
+    if (!isElementVisible(element)) return false;
+
+    for (const selector of this.config.excludeSelectors) {
+      if (element.closest(selector)) return false;
+    }
+
+    // Layout tables: no header cells and at most one row
+    if (isInstanceOf(element, HTMLTableElement)) {
+      return element.querySelector('th') !== null || element.rows.length > 1;
+    }
+
+    return true;
+  }
+
+  /**
+   * Extract headers and rows of a single table
+   */
+  private extractTable(element: HTMLElement): TableData {
+    const { headerRow, rows } = isInstanceOf(element, HTMLTableElement)
+      ? this.getHtmlRows(element)
+      : this.getAriaRows(element);
+
+    const headerCells = headerRow ? this.getCells(headerRow) : [];
+    const extracted: TableRow[] = [];
+    let columnCount = headerCells.length;
+
+    for (let i = 0; i < rows.length && i < this.config.maxRows; i++) {
+      const cells = this.getCells(rows[i]).map(cell => this.getCellText(cell));
+      columnCount = Math.max(columnCount, cells.length);
+
+      const row: TableRow = { index: i, cells };
+      const actions = this.getRowActions(rows[i]);
+      if (actions.length > 0) {
+        row.actions = actions;
+      }
+      extracted.push(row);
+    }
+
+    const headers = headerCells.map(cell => this.getCellText(cell));
+    for (let i = headers.length; i < columnCount; i++) {
+      headers.push(`Column ${i + 1}`);
+    }
+
+    const ariaRowCount = parseInt(element.getAttribute('aria-rowcount') || '', 10);
+    const rowCount = ariaRowCount > 0 ? ariaRowCount - (headerRow ? 1 : 0) : rows.length;
+
+    const table: TableData = {
+      id: this.registry.getRef(element),
+      selector: getDeepSelector(element),
+      headers,
+      rows: extracted,
+      rowCount,
+      truncated: extracted.length < rowCount,
+    };
+
+    const caption = computeAccessibleName(element);
+    if (caption) {
+      table.caption = caption;
+    }
+
+    return table;
+  }
+
+  /**
+   * Split an HTML table into its header row and data rows
+   */
+  private getHtmlRows(table: HTMLTableElement): { headerRow: HTMLElement | null; rows: HTMLElement[] } {
+    const allRows = Array.from(table.rows);
+
+    // Header: last row of <thead>, or a leading row made only of <th> cells
+    let headerRow: HTMLElement | null = null;
+    if (table.tHead && table.tHead.rows.length > 0) {
+      headerRow = table.tHead.rows[table.tHead.rows.length - 1];
+    } else if (allRows.length > 0 && Array.from(allRows[0].cells).every(cell => cell.tagName === 'TH')) {
+      headerRow = allRows[0];
+    }
+
+    const rows = allRows.filter(row =>
+      row !== headerRow && row.parentElement !== table.tHead && row.cells.length > 0
+    );
+
+    return { headerRow, rows };
+  }
+
+  /**
+   * Split an ARIA table/grid into its header row and data rows
+   */
+  private getAriaRows(grid: HTMLElement): { headerRow: HTMLElement | null; rows: HTMLElement[] } {
+    // Only rows of this grid, not of grids nested inside it
+    const allRows = Array.from(grid.querySelectorAll<HTMLElement>('[role="row"]'))
+      .filter(row => row.parentElement?.closest(TABLE_SELECTOR) === grid);
+
+    const headerRow = allRows.find(row => row.querySelector('[role="columnheader"]')) ?? null;
+    const rows = allRows.filter(row => row !== headerRow);
+
+    return { headerRow, rows };
+  }
+
+  /**
+   * Get the cells of a row, repeating cells that span several columns
+   */
+  private getCells(row: HTMLElement): HTMLElement[] {
+    const cells = isInstanceOf(row, HTMLTableRowElement)
+      ? Array.from(row.cells) as HTMLElement[]
+      : Array.from(row.querySelectorAll<HTMLElement>(
+          '[role="cell"], [role="gridcell"], [role="rowheader"], [role="columnheader"]'
+        )).filter(cell => cell.closest('[role="row"]') === row);
+
+    const expanded: HTMLElement[] = [];
+    for (const cell of cells) {
+      const span = Math.max(1, Math.min((cell as HTMLTableCellElement).colSpan || 1, 50));
+      for (let i = 0; i < span; i++) {
+        expanded.push(cell);
+      }
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Get the displayed text of a cell (form controls contribute their value)
+   */
+  private getCellText(cell: HTMLElement): string {
+    const control = cell.querySelector('input:not([type="hidden"]), select, textarea');
+    let text = cell.textContent || '';
+
+    if (control && !text.trim()) {
+      text = isInstanceOf(control, HTMLInputElement) && (control.type === 'checkbox' || control.type === 'radio')
+        ? (control.checked ? '✓' : '')
+        : (control as HTMLInputElement).value ?? '';
+    }
+
+    text = text.replace(/\s+/g, ' ').trim();
+    return text.length > MAX_CELL_LENGTH ? `${text.substring(0, MAX_CELL_LENGTH)}…` : text;
+  }
+
+  /**
+   * Get the interactive elements of a row as action targets
+   */
+  private getRowActions(row: HTMLElement): TableRowAction[] {
+    const actions: TableRowAction[] = [];
+
+    for (const element of Array.from(row.querySelectorAll<HTMLElement>(ROW_ACTION_SELECTOR))) {
+      if (!isElementVisible(element)) continue;
+
+      const action: TableRowAction = {
+        label: computeAccessibleName(element) || element.textContent?.trim() || element.tagName.toLowerCase(),
+        target: this.registry.getRef(element),
+      };
+
+      const role = getElementRole(element);
+      if (role) {
+        action.role = role;
+      }
+
+      actions.push(action);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<TableExtractorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+}
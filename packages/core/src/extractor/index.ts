@@ -0,0 +1,2 @@
+export { TableExtractor } from './TableExtractor';
+export { ContentExtractor } from './ContentExtractor';
@@ -30,10 +30,35 @@ export type {
   // Element types
   UIElement,
   ElementType,
+  ElementState,
+  ElementViewport,
+  Locator,
+  LocatorStrategy,
+  ElementFingerprint,
+  
+  // Recognizer types
+  ElementRecognizer,
+  RecognizedElement,
+  RecognizerAction,
+  CustomActionInfo,
   
   // Context types
   PageContext,
   FormState,
+  FormField,
+  TableData,
+  TableRow,
+  TableRowAction,
+  PageContent,
+  ContentHeading,
+  ContentBlock,
+  ContentBlockKind,
+  ContentPair,
+  Announcement,
+  AnnouncementSource,
+  BlockingDialog,
+  ElementBlocker,
+  FieldValidation,
   
   // Action types
   Action,
@@ -41,6 +66,8 @@ export type {
   ActionCommand,
   ActionResult,
   ActionParameters,
+  HealedTarget,
+  UploadFile,
   
   // Serialization types
   SerializationFormat,
@@ -61,11 +88,20 @@ export type {
 } from './types';
 
 // Components (for advanced usage)
-export { DOMScanner } from './scanner';
+export { DOMScanner, SECTION_SEPARATOR } from './scanner';
+export type { SectionKind } from './scanner';
 export { MutationTracker } from './tracker';
 export { ContextAggregator } from './aggregator';
 export { Serializer } from './serializer';
 export { ActionExecutor } from './executor';
+export { TableExtractor, ContentExtractor } from './extractor';
+export { ElementRegistry, isElementRef } from './registry';
+export {
+  RecognizerRegistry,
+  BUILT_IN_RECOGNIZERS,
+  radixSelectRecognizer,
+  muiAutocompleteRecognizer,
+} from './recognizers';
 
 // Utilities
 export {
@@ -78,6 +114,7 @@ export {
   getElementBounds,
   findElementByText,
   isValidSelector,
+  isInstanceOf,
 } from './utils';
 
 export {
@@ -88,3 +125,34 @@ export {
 
 export type { SanitizationResult } from './utils/selectorSanitizer';
 
+export {
+  SHADOW_PIERCE,
+  FRAME_PIERCE,
+  querySelectorDeep,
+  getDeepSelector,
+  getFrameSelector,
+  splitDeepSelector,
+  isDeepSelector,
+} from './utils/deepQuery';
+
+export {
+  getElementRole,
+  computeAccessibleName,
+  computeAccessibleDescription,
+} from './utils/accessibility';
+
+export { getElementViewport } from './utils/viewport';
+
+export { findBlockingModal, isInert } from './utils/modal';
+
+export { getFieldValidation } from './utils/validation';
+
+export {
+  buildLocators,
+  parseLocator,
+  formatLocator,
+  resolveLocator,
+  resolveLocatorAll,
+} from './utils/locators';
+
+export { buildFingerprint, matchFingerprint } from './utils/fingerprint';
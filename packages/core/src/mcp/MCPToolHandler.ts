@@ -9,6 +9,8 @@ import type { UUICSEngine } from '../UUICSEngine';
 import type { ActionCommand, ActionResult, PageContext } from '../types';
 import type { MCPToolCall, MCPToolResult } from './types';
 import { CORE_TOOLS } from './types';
+import { isInstanceOf } from '../utils';
+import { querySelectorDeep } from '../utils/deepQuery';
 
 /**
  * MCPToolHandler - Handles MCP tool calls and delegates to UUICS
@@ -32,7 +34,7 @@ export class MCPToolHandler {
       
       return {
         success: result.success,
-        content: result.success ? result.message : result.error || 'Unknown error',
+        content: this.formatResultContent(result),
         error: result.success ? undefined : result.error,
         id: toolCall.id,
         metadata: {
@@ -54,6 +56,20 @@ export class MCPToolHandler {
     }
   }
 
+  /**
+   * Get the text returned to the model, followed by what the page announced
+   * (toasts and alerts are often gone before the model looks again)
+   */
+  private formatResultContent(result: ActionResult): string {
+    const content = result.success ? result.message : result.error || 'Unknown error';
+    if (!result.announcements || result.announcements.length === 0) {
+      return content;
+    }
+
+    const announced = result.announcements.map(announcement => `- [${announcement.source}] ${announcement.text}`);
+    return [content, 'Page announced:', ...announced].join('\n');
+  }
+
   /**
    * Handle multiple tool calls in sequence
    */
@@ -114,6 +130,15 @@ export class MCPToolHandler {
       case CORE_TOOLS.HOVER:
         return this.handleHover(input);
 
+      case CORE_TOOLS.PRESS_KEY:
+        return this.handlePressKey(input);
+
+      case CORE_TOOLS.DRAG:
+        return this.handleDrag(input);
+
+      case CORE_TOOLS.UPLOAD_FILE:
+        return this.handleUploadFile(input);
+
       case CORE_TOOLS.WAIT_FOR:
         return this.handleWaitFor(input);
 
@@ -144,8 +169,8 @@ export class MCPToolHandler {
     
     let root: HTMLElement | undefined;
     if (rootSelector) {
-      const element = document.querySelector(rootSelector);
-      if (element instanceof HTMLElement) {
+      const element = querySelectorDeep(rootSelector);
+      if (element) {
         root = element;
       }
     }
@@ -202,9 +227,17 @@ export class MCPToolHandler {
       return { success: false, message: 'Missing target parameter', error: 'Missing target' };
     }
     
+    const hasPosition = input.x !== undefined && input.y !== undefined;
+    
     return this.engine.execute({
       action: 'click',
       target,
+      parameters: {
+        button: input.button,
+        clickCount: input.click_count,
+        modifiers: input.modifiers,
+        position: hasPosition ? { x: input.x, y: input.y } : undefined,
+      },
     });
   }
 
@@ -217,12 +250,15 @@ export class MCPToolHandler {
       return { success: false, message: 'Missing target or value parameter', error: 'Missing parameters' };
     }
     
-    // If clearing first, we set the value directly
-    // Otherwise, we could append (not yet supported in base executor)
     return this.engine.execute({
       action: 'setValue',
       target,
-      parameters: { value: clearFirst ? value : value },
+      parameters: {
+        value,
+        clear: clearFirst,
+        mode: input.mode === 'type' ? 'type' : 'fill',
+        ...(input.delay !== undefined ? { delay: input.delay } : {}),
+      },
     });
   }
 
@@ -278,17 +314,30 @@ export class MCPToolHandler {
   }
 
   private async handleScroll(input: Record<string, unknown>): Promise<ActionResult> {
-    const target = input.target as string;
+    const target = (input.target as string | undefined) ?? '';
     const behavior = (input.behavior as ScrollBehavior) || 'smooth';
+    const scrollsBy = input.direction !== undefined || input.to_end === true ||
+      input.until_selector !== undefined || input.until_text !== undefined;
     
-    if (!target) {
-      return { success: false, message: 'Missing target parameter', error: 'Missing target' };
+    if (!target && !scrollsBy) {
+      return { success: false, message: 'Missing target parameter', error: 'Provide a target or a direction' };
     }
     
     return this.engine.execute({
       action: 'scroll',
       target,
-      parameters: { behavior },
+      parameters: {
+        behavior,
+        direction: input.direction,
+        amount: input.amount,
+        pages: input.pages,
+        container: input.container,
+        toEnd: input.to_end === true,
+        untilSelector: input.until_selector,
+        untilText: input.until_text,
+        maxScrolls: input.max_scrolls,
+        wait: input.wait,
+      },
     });
   }
 
@@ -325,6 +374,74 @@ export class MCPToolHandler {
     return result;
   }
 
+  private async handlePressKey(input: Record<string, unknown>): Promise<ActionResult> {
+    const keys = input.keys as string[] | undefined;
+    const key = keys && keys.length > 0 ? keys : input.key as string | undefined;
+    const target = (input.target as string | undefined) ?? '';
+    
+    if (!key) {
+      return { success: false, message: 'Missing key parameter', error: 'Missing key or keys' };
+    }
+    
+    return this.engine.execute({
+      action: 'press',
+      target,
+      parameters: {
+        key,
+        times: input.times,
+      },
+    });
+  }
+
+  private async handleDrag(input: Record<string, unknown>): Promise<ActionResult> {
+    const target = input.target as string;
+    const to = input.to as string | undefined;
+    
+    if (!target) {
+      return { success: false, message: 'Missing target parameter', error: 'Missing target' };
+    }
+    if (!to && input.offset_x === undefined && input.offset_y === undefined) {
+      return { success: false, message: 'Missing drop target', error: 'Provide to or offset_x/offset_y' };
+    }
+    
+    return this.engine.execute({
+      action: 'drag',
+      target,
+      parameters: {
+        to,
+        offsetX: input.offset_x,
+        offsetY: input.offset_y,
+        mode: input.mode,
+      },
+    });
+  }
+
+  private async handleUploadFile(input: Record<string, unknown>): Promise<ActionResult> {
+    const target = input.target as string;
+    const files = input.files as Array<Record<string, unknown>> | undefined;
+    
+    if (!target) {
+      return { success: false, message: 'Missing target parameter', error: 'Missing target' };
+    }
+    if (!Array.isArray(files) || files.length === 0) {
+      return { success: false, message: 'Missing files parameter', error: 'Missing files' };
+    }
+    
+    return this.engine.execute({
+      action: 'upload',
+      target,
+      parameters: {
+        files: files.map(file => ({
+          name: file.name,
+          content: file.content,
+          encoding: file.encoding,
+          mimeType: file.mime_type,
+        })),
+        drop: input.drop === true,
+      },
+    });
+  }
+
   private async handleWaitFor(input: Record<string, unknown>): Promise<ActionResult> {
     const selector = input.selector as string | undefined;
     const condition = (input.condition as string) || 'visible';
@@ -346,7 +463,8 @@ export class MCPToolHandler {
     const startTime = Date.now();
     
     while (Date.now() - startTime < timeout) {
-      const element = document.querySelector(selector);
+      // Refs, locators and deep selectors (shadow roots and iframes) all work here
+      const element = this.engine.resolveElement(selector);
       let conditionMet = false;
       
       switch (condition) {
@@ -357,8 +475,8 @@ export class MCPToolHandler {
           conditionMet = element === null;
           break;
         case 'visible':
-          if (element instanceof HTMLElement) {
-            const style = window.getComputedStyle(element);
+          if (element) {
+            const style = (element.ownerDocument.defaultView ?? window).getComputedStyle(element);
             conditionMet = style.display !== 'none' && 
                           style.visibility !== 'hidden' && 
                           style.opacity !== '0' &&
@@ -368,8 +486,8 @@ export class MCPToolHandler {
         case 'hidden':
           if (element === null) {
             conditionMet = true;
-          } else if (element instanceof HTMLElement) {
-            const style = window.getComputedStyle(element);
+          } else {
+            const style = (element.ownerDocument.defaultView ?? window).getComputedStyle(element);
             conditionMet = style.display === 'none' || 
                           style.visibility === 'hidden' || 
                           style.opacity === '0' ||
@@ -377,18 +495,18 @@ export class MCPToolHandler {
           }
           break;
         case 'enabled':
-          if (element instanceof HTMLButtonElement || 
-              element instanceof HTMLInputElement || 
-              element instanceof HTMLSelectElement || 
-              element instanceof HTMLTextAreaElement) {
+          if (isInstanceOf(element, HTMLButtonElement) || 
+              isInstanceOf(element, HTMLInputElement) || 
+              isInstanceOf(element, HTMLSelectElement) || 
+              isInstanceOf(element, HTMLTextAreaElement)) {
             conditionMet = !element.disabled;
           }
           break;
         case 'disabled':
-          if (element instanceof HTMLButtonElement || 
-              element instanceof HTMLInputElement || 
-              element instanceof HTMLSelectElement || 
-              element instanceof HTMLTextAreaElement) {
+          if (isInstanceOf(element, HTMLButtonElement) || 
+              isInstanceOf(element, HTMLInputElement) || 
+              isInstanceOf(element, HTMLSelectElement) || 
+              isInstanceOf(element, HTMLTextAreaElement)) {
             conditionMet = element.disabled;
           }
           break;
@@ -425,8 +543,8 @@ export class MCPToolHandler {
       
       if (selector) {
         // Element screenshot using Canvas
-        const element = document.querySelector(selector);
-        if (!element || !(element instanceof HTMLElement)) {
+        const element = this.engine.resolveElement(selector);
+        if (!element) {
           return {
             success: false,
             message: `Element not found: ${selector}`,
@@ -454,7 +572,7 @@ export class MCPToolHandler {
         // Note: For complex element capture, html2canvas would be needed
         // This is a simplified version that captures basic element info
         ctx.scale(scale, scale);
-        ctx.fillStyle = window.getComputedStyle(element).backgroundColor || '#ffffff';
+        ctx.fillStyle = (element.ownerDocument.defaultView ?? window).getComputedStyle(element).backgroundColor || '#ffffff';
         ctx.fillRect(0, 0, rect.width, rect.height);
         
         // Draw element border for debugging
@@ -613,11 +731,14 @@ export class MCPToolHandler {
       return { success: false, message: 'Missing or invalid actions array', error: 'Invalid actions' };
     }
     
-    const commands: ActionCommand[] = actions.map(a => ({
-      action: this.mapActionName(a.action),
-      target: a.target,
-      parameters: a.value ? { value: a.value } : undefined,
-    }));
+    const commands: ActionCommand[] = actions.map(a => {
+      const action = this.mapActionName(a.action);
+      return {
+        action,
+        target: a.target ?? '',
+        parameters: a.value ? (action === 'press' ? { key: a.value } : { value: a.value }) : undefined,
+      };
+    });
     
     const results = await this.engine.executeBatch(commands);
     
@@ -667,9 +788,9 @@ export class MCPToolHandler {
     
     // Handle parameters for specific action types
     if (action === 'setValue' && input.value !== undefined) {
-      command.parameters = { value: input.value as string };
+      command.parameters = { value: input.value as string | number };
     } else if (action === 'select' && input.value !== undefined) {
-      command.parameters = { value: input.value as string };
+      command.parameters = { value: input.value as string | string[] };
     } else if (action === 'check' && input.checked !== undefined) {
       // Toggle based on checked parameter
       command.action = input.checked ? 'check' : 'uncheck';
@@ -703,6 +824,8 @@ export class MCPToolHandler {
           break;
         case 'input':
         case 'textarea':
+          // File inputs are filled through ui_upload_file
+          if (element.attributes.type === 'file') continue;
           toolName = `${prefix}set_${safeName}`;
           action = 'setValue';
           break;
@@ -718,6 +841,28 @@ export class MCPToolHandler {
           toolName = `${prefix}select_${safeName}`;
           action = 'click';
           break;
+        case 'radiogroup':
+        case 'checkboxgroup':
+          toolName = `${prefix}choose_${safeName}`;
+          action = 'select';
+          break;
+        case 'switch':
+          toolName = `${prefix}toggle_${safeName}`;
+          action = 'check';
+          break;
+        case 'slider':
+          toolName = `${prefix}set_${safeName}`;
+          action = 'setValue';
+          break;
+        case 'tab':
+        case 'treeitem':
+          toolName = `${prefix}select_${safeName}`;
+          action = 'select';
+          break;
+        case 'menuitem':
+          toolName = `${prefix}click_${safeName}`;
+          action = 'click';
+          break;
         default:
           continue;
       }
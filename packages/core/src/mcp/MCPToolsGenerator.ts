@@ -14,6 +14,11 @@ import type {
 } from './types';
 import { DEFAULT_MCP_CONFIG, CORE_TOOLS } from './types';
 
+/**
+ * How to describe an action target in tool schemas
+ */
+const TARGET_DESCRIPTION = 'Element ref (e.g. "e12"), locator (role=button[name="Save"], text="Sign in", label="Email", xpath=//...) or CSS selector';
+
 /**
  * MCPToolsGenerator - Generates MCP tool definitions from UI context
  */
@@ -63,7 +68,7 @@ export class MCPToolsGenerator {
         properties: {
           root_selector: {
             type: 'string',
-            description: 'Optional CSS selector to limit scanning to a specific part of the page',
+            description: 'Optional CSS selector to limit scanning to a specific part of the page (use "|>" to enter an iframe, ">>>" to enter a shadow root)',
           },
         },
       },
@@ -91,15 +96,47 @@ export class MCPToolsGenerator {
     // ui_click - Click an element
     tools.push({
       name: CORE_TOOLS.CLICK,
-      description: 'Click on an interactive element on the page.',
-      input_schema: this.buildTargetSchema(context, ['button', 'link']),
+      description: 'Click on an interactive element on the page (buttons, links, menu items, tabs, tree items). Also double-clicks (e.g. to edit a cell), right-clicks (context menus), modifier clicks and clicks at a point inside the element.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          target: this.buildTargetProperty(context, ['button', 'link', 'menuitem', 'tab', 'treeitem']),
+          button: {
+            type: 'string',
+            enum: ['left', 'middle', 'right'],
+            description: 'Mouse button (default: left; right opens context menus)',
+            default: 'left',
+          },
+          click_count: {
+            type: 'number',
+            description: 'Number of clicks: 2 for a double click, 3 for a triple click (default: 1)',
+            minimum: 1,
+            maximum: 3,
+            default: 1,
+          },
+          modifiers: {
+            type: 'array',
+            items: { type: 'string', enum: ['Control', 'Shift', 'Alt', 'Meta', 'Mod'] },
+            description: 'Keys held during the click (Mod is Cmd on macOS, Ctrl elsewhere)',
+          },
+          x: {
+            type: 'number',
+            description: 'Horizontal offset in pixels from the element\'s left edge (default: its center; give with y)',
+          },
+          y: {
+            type: 'number',
+            description: 'Vertical offset in pixels from the element\'s top edge (default: its center; give with x)',
+          },
+        },
+        required: ['target'],
+      },
       metadata: { category: 'interaction', mutates: true, executionTime: 'fast' },
     });
 
     // ui_type - Type text into an input
     tools.push({
       name: CORE_TOOLS.TYPE,
-      description: 'Type text into an input field or textarea.',
+      description: 'Type text into an input field, textarea or contenteditable editor.',
       input_schema: {
         type: 'object',
         properties: {
@@ -113,6 +150,17 @@ export class MCPToolsGenerator {
             description: 'Whether to clear the input before typing (default: true)',
             default: true,
           },
+          mode: {
+            type: 'string',
+            enum: ['fill', 'type'],
+            description: 'fill sets the text at once; type presses a key per character (use for masked inputs, autocompletes and fields that ignore fill)',
+            default: 'fill',
+          },
+          delay: {
+            type: 'number',
+            description: 'Milliseconds between key presses in type mode (default: 0)',
+            minimum: 0,
+          },
         },
         required: ['target', 'value'],
       },
@@ -140,16 +188,16 @@ export class MCPToolsGenerator {
     // ui_check - Check a checkbox
     tools.push({
       name: CORE_TOOLS.CHECK,
-      description: 'Check (enable) a checkbox.',
-      input_schema: this.buildTargetSchema(context, ['checkbox']),
+      description: 'Check (enable) a checkbox or turn on a switch.',
+      input_schema: this.buildTargetSchema(context, ['checkbox', 'switch']),
       metadata: { category: 'interaction', mutates: true, executionTime: 'fast' },
     });
 
     // ui_uncheck - Uncheck a checkbox
     tools.push({
       name: CORE_TOOLS.UNCHECK,
-      description: 'Uncheck (disable) a checkbox.',
-      input_schema: this.buildTargetSchema(context, ['checkbox']),
+      description: 'Uncheck (disable) a checkbox or turn off a switch.',
+      input_schema: this.buildTargetSchema(context, ['checkbox', 'switch']),
       metadata: { category: 'interaction', mutates: true, executionTime: 'fast' },
     });
 
@@ -164,24 +212,62 @@ export class MCPToolsGenerator {
     // ui_scroll - Scroll to an element
     tools.push({
       name: CORE_TOOLS.SCROLL,
-      description: 'Scroll the page to bring an element into view.',
+      description: 'Scroll an element into view, or scroll the page or a container by pages or pixels, to its end, or until an element or text appears (loading more results in infinite scroll lists). Reports the elements the scroll revealed.',
       input_schema: {
         type: 'object',
         properties: {
           target: {
             type: 'string',
-            description: 'CSS selector of the element to scroll to',
+            description: `${TARGET_DESCRIPTION} of the element to scroll into view, or (with direction) an element inside the container to scroll. Optional with direction: the page scrolls.`,
+          },
+          direction: {
+            type: 'string',
+            enum: ['up', 'down', 'left', 'right'],
+            description: 'Scroll the container by an amount instead of scrolling the target into view (default for until: down)',
+          },
+          amount: {
+            type: 'number',
+            description: 'Pixels to scroll per step',
+            minimum: 1,
+          },
+          pages: {
+            type: 'number',
+            description: 'Pages to scroll per step, a page being 90% of the visible height or width (default: 1)',
+          },
+          container: {
+            type: 'string',
+            description: `${TARGET_DESCRIPTION} of the scroll container (default: the container of the target, or the page)`,
+          },
+          to_end: {
+            type: 'boolean',
+            description: 'Scroll all the way in the direction (top, bottom, left or right edge)',
+          },
+          until_selector: {
+            type: 'string',
+            description: 'Keep scrolling until an element matching this ref, locator or selector appears',
+          },
+          until_text: {
+            type: 'string',
+            description: 'Keep scrolling until this text appears',
+          },
+          max_scrolls: {
+            type: 'number',
+            description: 'Most scroll steps when scrolling until something appears (default: 20)',
+          },
+          wait: {
+            type: 'number',
+            description: 'Milliseconds to wait for more content at the end of the list before giving up (default: 500)',
+            minimum: 0,
           },
           behavior: {
             type: 'string',
             enum: ['smooth', 'instant', 'auto'],
-            description: 'Scroll behavior',
+            description: 'Scroll behavior when scrolling the target into view',
             default: 'smooth',
           },
         },
-        required: ['target'],
       },
-      metadata: { category: 'interaction', mutates: false, executionTime: 'fast' },
+      metadata: { category: 'interaction', mutates: false, executionTime: 'medium' },
     });
 
     // ui_focus - Focus an element
@@ -201,7 +287,7 @@ export class MCPToolsGenerator {
         properties: {
           target: {
             type: 'string',
-            description: 'CSS selector of the element to hover over',
+            description: `${TARGET_DESCRIPTION} of the element to hover over`,
           },
           duration: {
             type: 'number',
@@ -214,6 +300,107 @@ export class MCPToolsGenerator {
       metadata: { category: 'interaction', mutates: false, executionTime: 'fast' },
     });
 
+    // ui_press_key - Press a key or shortcut
+    tools.push({
+      name: CORE_TOOLS.PRESS_KEY,
+      description: 'Press a key or keyboard shortcut, e.g. Enter to submit a search, Escape to close a dialog, ArrowDown to move through a list, Tab to move focus or Control+K to open a command palette. Keys go to the target (focused first) or, without a target, to the focused element.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          key: {
+            type: 'string',
+            description: 'Key name or chord: "Enter", "Escape", "Tab", "ArrowDown", "a", "Control+K", "Shift+Tab", "Mod+S" (Cmd on macOS, Ctrl elsewhere)',
+          },
+          keys: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Several keys or chords pressed in order, instead of key (e.g. ["ArrowDown", "ArrowDown", "Enter"])',
+          },
+          target: {
+            type: 'string',
+            description: `${TARGET_DESCRIPTION} of the element to press the key on (optional, default: the focused element)`,
+          },
+          times: {
+            type: 'number',
+            description: 'How many times to press the key(s) (optional, default: 1)',
+            default: 1,
+          },
+        },
+      },
+      metadata: { category: 'interaction', mutates: true, executionTime: 'fast' },
+    });
+
+    // ui_drag - Drag an element onto another or by an offset
+    tools.push({
+      name: CORE_TOOLS.DRAG,
+      description: 'Drag an element and drop it onto another element (e.g. a card onto a kanban column) or move it by an offset. Uses HTML5 drag events for draggable="true" elements and pointer events otherwise (dnd-kit and similar libraries).',
+      input_schema: {
+        type: 'object',
+        properties: {
+          target: {
+            type: 'string',
+            description: `${TARGET_DESCRIPTION} of the element to drag`,
+          },
+          to: {
+            type: 'string',
+            description: `${TARGET_DESCRIPTION} of the drop target (optional when an offset is given)`,
+          },
+          offset_x: {
+            type: 'number',
+            description: 'Horizontal offset in pixels, from the drop target\'s center (or the dragged element\'s without a drop target)',
+          },
+          offset_y: {
+            type: 'number',
+            description: 'Vertical offset in pixels, from the drop target\'s center (or the dragged element\'s without a drop target)',
+          },
+          mode: {
+            type: 'string',
+            enum: ['auto', 'html5', 'pointer'],
+            description: 'Which events to use; auto picks html5 for draggable="true" elements and pointer otherwise',
+            default: 'auto',
+          },
+        },
+        required: ['target'],
+      },
+      metadata: { category: 'interaction', mutates: true, executionTime: 'medium' },
+    });
+
+    // ui_upload_file - Put files into a file input or drop zone
+    tools.push({
+      name: CORE_TOOLS.UPLOAD_FILE,
+      description: 'Upload files by creating them in the page: assigns them to a file input (or the input behind an upload button or label), or drops them onto a drop zone.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          target: {
+            type: 'string',
+            description: `${TARGET_DESCRIPTION} of the file input, upload button or drop zone`,
+          },
+          files: {
+            type: 'array',
+            description: 'Files to upload',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'File name, e.g. "notes.txt"' },
+                content: { type: 'string', description: 'File content as text, or base64 for binary files' },
+                encoding: { type: 'string', enum: ['text', 'base64'], description: 'Encoding of content (default: text)' },
+                mime_type: { type: 'string', description: 'MIME type (default: guessed from the extension)' },
+              },
+              required: ['name', 'content'],
+            },
+          },
+          drop: {
+            type: 'boolean',
+            description: 'Drop the files onto the target even when it has a file input',
+            default: false,
+          },
+        },
+        required: ['target', 'files'],
+      },
+      metadata: { category: 'interaction', mutates: true, executionTime: 'fast' },
+    });
+
     // ui_wait_for - Wait for element or condition
     tools.push({
       name: CORE_TOOLS.WAIT_FOR,
@@ -223,7 +410,7 @@ export class MCPToolsGenerator {
         properties: {
           selector: {
             type: 'string',
-            description: 'CSS selector of the element to wait for (optional if using timeout only)',
+            description: `${TARGET_DESCRIPTION} of the element to wait for (optional if using timeout only)`,
           },
           condition: {
             type: 'string',
@@ -255,7 +442,7 @@ export class MCPToolsGenerator {
         properties: {
           selector: {
             type: 'string',
-            description: 'CSS selector of element to capture (optional, captures full viewport if not provided)',
+            description: `${TARGET_DESCRIPTION} of the element to capture (optional, captures full viewport if not provided)`,
           },
           format: {
             type: 'string',
@@ -308,7 +495,7 @@ export class MCPToolsGenerator {
         properties: {
           selector: {
             type: 'string',
-            description: 'CSS selector of the element',
+            description: `${TARGET_DESCRIPTION} of the element`,
           },
         },
         required: ['selector'],
@@ -331,10 +518,10 @@ export class MCPToolsGenerator {
               properties: {
                 action: {
                   type: 'string',
-                  enum: ['click', 'type', 'select', 'check', 'uncheck', 'submit', 'scroll', 'focus', 'hover'],
+                  enum: ['click', 'type', 'select', 'check', 'uncheck', 'submit', 'scroll', 'focus', 'hover', 'press'],
                 },
-                target: { type: 'string' },
-                value: { type: 'string' },
+                target: { type: 'string', description: TARGET_DESCRIPTION },
+                value: { type: 'string', description: 'Text to type, option to select, or key to press' },
               },
             },
           },
@@ -403,6 +590,9 @@ export class MCPToolsGenerator {
 
       case 'input':
       case 'textarea':
+        // File inputs are filled through ui_upload_file
+        if (element.attributes.type === 'file') return null;
+
         return {
           name: `${prefix}set_${safeName}`,
           description: `Set the value of "${element.label}" input field`,
@@ -482,6 +672,128 @@ export class MCPToolsGenerator {
           },
         };
 
+      case 'radiogroup':
+        return {
+          name: `${prefix}choose_${safeName}`,
+          description: `Choose an option of "${element.label}"${element.value ? ` (currently "${element.value}")` : ''}`,
+          input_schema: {
+            type: 'object',
+            properties: {
+              value: {
+                type: 'string',
+                description: 'Option to choose',
+                enum: (element.options || []).map(o => o.value),
+              },
+            },
+            required: ['value'],
+          },
+          metadata: {
+            category: 'dynamic',
+            mutates: true,
+            executionTime: 'fast',
+          },
+        };
+
+      case 'checkboxgroup':
+        return {
+          name: `${prefix}choose_${safeName}`,
+          description: `Choose the checked options of "${element.label}"`,
+          input_schema: {
+            type: 'object',
+            properties: {
+              value: {
+                type: 'array',
+                description: 'Options to check; all other options are unchecked',
+                items: {
+                  type: 'string',
+                  enum: (element.options || []).map(o => o.value),
+                },
+              },
+            },
+            required: ['value'],
+          },
+          metadata: {
+            category: 'dynamic',
+            mutates: true,
+            executionTime: 'fast',
+          },
+        };
+
+      case 'switch':
+        return {
+          name: `${prefix}toggle_${safeName}`,
+          description: `Turn the "${element.label}" switch on or off (currently ${element.state?.checked ? 'on' : 'off'})`,
+          input_schema: {
+            type: 'object',
+            properties: {
+              checked: {
+                type: 'boolean',
+                description: 'Whether to turn the switch on (true) or off (false)',
+              },
+            },
+            required: ['checked'],
+          },
+          metadata: {
+            category: 'dynamic',
+            mutates: true,
+            executionTime: 'fast',
+          },
+        };
+
+      case 'slider':
+        return {
+          name: `${prefix}set_${safeName}`,
+          description: `Set the "${element.label}" slider (currently ${element.state?.valueText ?? element.state?.valueNow})`,
+          input_schema: {
+            type: 'object',
+            properties: {
+              value: {
+                type: 'number',
+                description: `Value to set in ${element.label}`,
+                minimum: element.state?.valueMin,
+                maximum: element.state?.valueMax,
+              },
+            },
+            required: ['value'],
+          },
+          metadata: {
+            category: 'dynamic',
+            mutates: true,
+            executionTime: 'fast',
+          },
+        };
+
+      case 'tab':
+      case 'treeitem':
+        return {
+          name: `${prefix}select_${safeName}`,
+          description: `Select the "${element.label}" ${element.type === 'tab' ? 'tab' : 'tree item'}`,
+          input_schema: {
+            type: 'object',
+            properties: {},
+          },
+          metadata: {
+            category: 'dynamic',
+            mutates: true,
+            executionTime: 'fast',
+          },
+        };
+
+      case 'menuitem':
+        return {
+          name: `${prefix}click_${safeName}`,
+          description: `Choose the "${element.label}" menu item`,
+          input_schema: {
+            type: 'object',
+            properties: {},
+          },
+          metadata: {
+            category: 'dynamic',
+            mutates: true,
+            executionTime: 'fast',
+          },
+        };
+
       default:
         return null;
     }
@@ -501,23 +813,23 @@ export class MCPToolsGenerator {
   }
 
   /**
-   * Build target property with enum of available selectors
+   * Build target property listing the available element refs
    */
   private buildTargetProperty(context: PageContext | null | undefined, types: string[]): JSONSchemaProperty {
     const property: JSONSchemaProperty = {
       type: 'string',
-      description: `CSS selector or label of the ${types.join('/')} element`,
+      description: `${TARGET_DESCRIPTION} of the ${types.join('/')} element`,
     };
 
-    // Add enum of available selectors if context is provided
+    // List available refs if context is provided (not as an enum: locators are accepted too)
     if (context?.elements) {
-      const selectors = context.elements
+      const refs = context.elements
         .filter(el => types.includes(el.type) && el.visible && el.enabled)
-        .map(el => el.selector)
-        .slice(0, 20); // Limit to prevent huge enums
+        .slice(0, 20) // Limit to keep the description short
+        .map(el => `${el.id} (${el.label || el.selector})`);
 
-      if (selectors.length > 0) {
-        property.enum = selectors;
+      if (refs.length > 0) {
+        property.description += `. Available: ${refs.join(', ')}`;
       }
     }
 
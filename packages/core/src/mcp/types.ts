@@ -23,6 +23,8 @@ export interface JSONSchemaProperty {
   type: 'string' | 'number' | 'boolean' | 'array' | 'object';
   description?: string;
   enum?: (string | number | boolean)[];
+  minimum?: number;
+  maximum?: number;
   items?: JSONSchemaProperty;
   default?: unknown;
   properties?: Record<string, JSONSchemaProperty>;
@@ -153,7 +155,10 @@ export const DEFAULT_MCP_CONFIG: Required<MCPGeneratorConfig> = {
   toolPrefix: 'ui_',
   includeBounds: false,
   customTools: [],
-  elementTypes: ['button', 'input', 'select', 'checkbox', 'radio', 'link', 'textarea'],
+  elementTypes: [
+    'button', 'input', 'select', 'checkbox', 'radio', 'link', 'textarea',
+    'switch', 'slider', 'tab', 'menuitem', 'treeitem', 'radiogroup', 'checkboxgroup',
+  ],
 };
 
 // ============================================================================
@@ -174,6 +179,9 @@ export const CORE_TOOLS = {
   SCROLL: 'ui_scroll',
   FOCUS: 'ui_focus',
   HOVER: 'ui_hover',
+  PRESS_KEY: 'ui_press_key',
+  DRAG: 'ui_drag',
+  UPLOAD_FILE: 'ui_upload_file',
   WAIT_FOR: 'ui_wait_for',
   SCREENSHOT: 'ui_screenshot',
   GET_STATE: 'ui_get_state',
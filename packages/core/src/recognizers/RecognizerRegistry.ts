@@ -0,0 +1,97 @@
+/**
+ * Recognizer Registry - Component library adapters for the scanner and executor
+ *
+ * Recognizers describe elements that generic DOM inspection gets wrong
+ * (e.g. a Radix Select trigger is a plain button whose options live in a
+ * portal). The scanner asks the registry to classify elements, and the
+ * executor asks it again to run the component-specific actions.
+ */
+
+import type { ElementRecognizer, RecognizedElement, RecognizerAction } from '../types';
+
+/**
+ * A recognizer together with what it recognized
+ */
+export interface RecognitionMatch {
+  recognizer: ElementRecognizer;
+  result: RecognizedElement;
+}
+
+/**
+ * Recognizer Registry class
+ */
+export class RecognizerRegistry {
+  private recognizers: ElementRecognizer[] = [];
+
+  constructor(recognizers: ElementRecognizer[] = []) {
+    // Keep the given order: earlier recognizers are tried first
+    for (const recognizer of [...recognizers].reverse()) {
+      this.register(recognizer);
+    }
+  }
+
+  /**
+   * Register a recognizer. It is tried before the ones registered earlier,
+   * and replaces a registered recognizer with the same name.
+   */
+  register(recognizer: ElementRecognizer): void {
+    this.unregister(recognizer.name);
+    this.recognizers.unshift(recognizer);
+  }
+
+  /**
+   * Remove a recognizer by name
+   */
+  unregister(name: string): boolean {
+    const index = this.recognizers.findIndex(recognizer => recognizer.name === name);
+    if (index === -1) return false;
+
+    this.recognizers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the registered recognizers in the order they are tried
+   */
+  list(): ElementRecognizer[] {
+    return [...this.recognizers];
+  }
+
+  /**
+   * Get the number of registered recognizers
+   */
+  get size(): number {
+    return this.recognizers.length;
+  }
+
+  /**
+   * Find the first recognizer that recognizes an element
+   */
+  recognize(element: HTMLElement): RecognitionMatch | null {
+    for (const recognizer of this.recognizers) {
+      try {
+        if (recognizer.selector && !element.matches(recognizer.selector)) {
+          continue;
+        }
+
+        const result = recognizer.recognize(element);
+        if (result) {
+          return { recognizer, result };
+        }
+      } catch (error) {
+        // A broken adapter (or malformed selector) must not break scanning
+        console.warn(`[UUICS Recognizers] Recognizer '${recognizer.name}' failed:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a component-specific action offered for an element
+   */
+  getAction(element: HTMLElement, name: string): RecognizerAction | null {
+    const match = this.recognize(element);
+    return match?.result.actions?.find(action => action.name === name) ?? null;
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Built-in recognizers for popular component libraries
+ */
+
+import type { ActionResult, ElementRecognizer, SelectOption } from '../types';
+import { isInstanceOf } from '../utils';
+
+/**
+ * How long to wait for a popup listbox to render (ms)
+ */
+const POPUP_TIMEOUT = 1000;
+
+/**
+ * Radix UI Select (also shadcn/ui `<Select>`).
+ * The trigger is a button with role="combobox"; options are rendered into a
+ * portal only while open, so they are read from the hidden native select
+ * Radix renders for form submission, or from the open listbox.
+ */
+export const radixSelectRecognizer: ElementRecognizer = {
+  name: 'radix-select',
+  selector: 'button[role="combobox"][aria-autocomplete="none"][data-state]',
+
+  recognize(trigger) {
+    const nativeSelect = getRadixNativeSelect(trigger);
+    const listbox = getControlledListbox(trigger);
+    const options = nativeSelect
+      ? getNativeOptions(nativeSelect)
+      : listbox ? getListboxOptions(listbox) : [];
+
+    const value = trigger.hasAttribute('data-placeholder')
+      ? ''
+      : nativeSelect?.value || trigger.textContent?.trim() || '';
+
+    return {
+      type: 'select',
+      value,
+      options: options.map(option => ({ ...option, selected: option.value === value || option.label === value })),
+      attributes: { 'data-state': trigger.getAttribute('data-state') ?? 'closed' },
+      actions: [
+        {
+          name: 'select',
+          description: 'Open the select and choose an option by value or label',
+          parameters: {
+            value: { type: 'string', description: 'Option value or label', required: true },
+          },
+          execute: (element, parameters) => selectRadixOption(element, String(parameters.value ?? '')),
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * MUI Autocomplete (`@mui/material`).
+ * The input is a combobox whose listbox only exists while the popup is open,
+ * so options are listed when open and chosen by typing to filter otherwise.
+ */
+export const muiAutocompleteRecognizer: ElementRecognizer = {
+  name: 'mui-autocomplete',
+  selector: 'input.MuiAutocomplete-input',
+
+  recognize(input) {
+    if (!isInstanceOf(input, HTMLInputElement)) return null;
+
+    const root = input.closest('.MuiAutocomplete-root');
+    const listbox = getControlledListbox(input);
+    const tags = root
+      ? Array.from(root.querySelectorAll('.MuiAutocomplete-tag')).map(tag => tag.textContent?.trim() || '')
+      : [];
+
+    return {
+      type: 'select',
+      value: tags.length > 0 ? tags : input.value,
+      options: listbox ? getListboxOptions(listbox) : undefined,
+      attributes: { 'aria-expanded': input.getAttribute('aria-expanded') === 'true' },
+      actions: [
+        {
+          name: 'select',
+          description: 'Type to filter the autocomplete and choose the matching option',
+          parameters: {
+            value: { type: 'string', description: 'Option label', required: true },
+          },
+          execute: (element, parameters) => selectMuiOption(element as HTMLInputElement, String(parameters.value ?? '')),
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * Recognizers registered by default
+ */
+export const BUILT_IN_RECOGNIZERS: ElementRecognizer[] = [
+  radixSelectRecognizer,
+  muiAutocompleteRecognizer,
+];
+
+/**
+ * Open a Radix Select and choose an option
+ */
+async function selectRadixOption(trigger: HTMLElement, value: string): Promise<ActionResult> {
+  // Radix opens on keyboard (Enter/Space/Arrow) or a primary mouse pointerdown
+  if (trigger.getAttribute('aria-expanded') !== 'true') {
+    trigger.focus();
+    trigger.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true }));
+  }
+
+  let listbox = await waitFor(() => getControlledListbox(trigger), POPUP_TIMEOUT / 2);
+  if (!listbox) {
+    const view = trigger.ownerDocument.defaultView ?? window;
+    trigger.dispatchEvent(new view.PointerEvent('pointerdown', {
+      bubbles: true, cancelable: true, button: 0, pointerType: 'mouse',
+    }));
+    listbox = await waitFor(() => getControlledListbox(trigger), POPUP_TIMEOUT / 2);
+  }
+
+  if (!listbox) {
+    return { success: false, message: 'Select did not open', error: 'No listbox appeared after opening the select' };
+  }
+
+  // Native option labels map values to the texts shown in the listbox
+  const nativeSelect = getRadixNativeSelect(trigger);
+  const nativeOption = nativeSelect
+    ? getNativeOptions(nativeSelect).find(option => option.value === value)
+    : undefined;
+  const option = findOptionByText(listbox, nativeOption?.label ?? value);
+
+  if (!option) {
+    return { success: false, message: 'Option not found', error: `No option matching "${value}"` };
+  }
+
+  option.focus();
+  option.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true }));
+
+  // Fall back to a click when the keyboard did not close the listbox
+  if (await waitFor(() => (getControlledListbox(trigger) ? null : trigger), POPUP_TIMEOUT / 2) === null) {
+    option.click();
+  }
+
+  return { success: true, message: 'Option selected successfully', data: { value } };
+}
+
+/**
+ * Filter a MUI Autocomplete by typing and choose the matching option
+ */
+async function selectMuiOption(input: HTMLInputElement, value: string): Promise<ActionResult> {
+  input.focus();
+
+  // Use the native setter so React sees the change
+  const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set;
+  if (setter) {
+    setter.call(input, value);
+  } else {
+    input.value = value;
+  }
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+
+  const option = await waitFor(() => {
+    const listbox = getControlledListbox(input);
+    return listbox ? findOptionByText(listbox, value) : null;
+  }, POPUP_TIMEOUT);
+
+  if (!option) {
+    return { success: false, message: 'Option not found', error: `No autocomplete option matching "${value}"` };
+  }
+
+  option.click();
+
+  return { success: true, message: 'Option selected successfully', data: { value: option.textContent?.trim() } };
+}
+
+/**
+ * Get the hidden native select Radix renders next to the trigger
+ */
+function getRadixNativeSelect(trigger: HTMLElement): HTMLSelectElement | null {
+  const select = trigger.parentElement?.querySelector('select[aria-hidden="true"]');
+  return select && isInstanceOf(select, HTMLSelectElement) ? select : null;
+}
+
+/**
+ * Get the listbox an element controls (via aria-controls), when it is rendered
+ */
+function getControlledListbox(element: HTMLElement): HTMLElement | null {
+  const id = element.getAttribute('aria-controls');
+  if (!id) return null;
+
+  const listbox = element.ownerDocument.getElementById(id);
+  return listbox && listbox.isConnected ? listbox : null;
+}
+
+/**
+ * Read the options of a native select
+ */
+function getNativeOptions(select: HTMLSelectElement): SelectOption[] {
+  return Array.from(select.options)
+    .filter(option => option.value !== '')
+    .map((option, index) => ({
+      value: option.value,
+      label: option.text.trim(),
+      selected: option.selected,
+      disabled: option.disabled,
+      text: option.text.trim(),
+      index,
+    }));
+}
+
+/**
+ * Read the options of an ARIA listbox
+ */
+function getListboxOptions(listbox: HTMLElement): SelectOption[] {
+  return Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]')).map((option, index) => {
+    const text = option.textContent?.trim() || '';
+    return {
+      value: option.getAttribute('data-value') ?? text,
+      label: text,
+      selected: option.getAttribute('aria-selected') === 'true',
+      disabled: option.getAttribute('aria-disabled') === 'true' || option.hasAttribute('data-disabled'),
+      text,
+      index,
+    };
+  });
+}
+
+/**
+ * Find a listbox option by its text: exact match first, then prefix match
+ */
+function findOptionByText(listbox: HTMLElement, text: string): HTMLElement | null {
+  const wanted = text.trim().toLowerCase();
+  const options = Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'));
+  const textOf = (option: HTMLElement) => option.textContent?.trim().toLowerCase() || '';
+
+  return options.find(option => textOf(option) === wanted || option.getAttribute('data-value') === text)
+    ?? options.find(option => textOf(option).startsWith(wanted))
+    ?? null;
+}
+
+/**
+ * Poll until a lookup returns an element or the timeout expires
+ */
+async function waitFor<T>(lookup: () => T | null, timeout: number): Promise<T | null> {
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const found = lookup();
+    if (found) return found;
+    if (Date.now() >= deadline) return null;
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
@@ -0,0 +1,3 @@
+export { RecognizerRegistry } from './RecognizerRegistry';
+export type { RecognitionMatch } from './RecognizerRegistry';
+export { BUILT_IN_RECOGNIZERS, radixSelectRecognizer, muiAutocompleteRecognizer } from './builtins';
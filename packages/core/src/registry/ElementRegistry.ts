@@ -0,0 +1,150 @@
+/**
+ * Element Registry - Stable element references across scans
+ *
+ * Every live DOM node the scanner reports gets a short ref such as `e42`.
+ * The same node keeps the same ref for as long as it stays in the page, so
+ * an id the model saw in one turn still points at the same element later.
+ */
+
+/**
+ * Pattern for element refs
+ */
+const REF_PATTERN = /^e\d+$/;
+
+/**
+ * Check whether a target string is an element ref (e.g. `e42`)
+ */
+export function isElementRef(value: string): boolean {
+  return REF_PATTERN.test(value.trim());
+}
+
+/**
+ * Refs registered before the registry first prunes itself. After each
+ * prune the threshold becomes twice the refs still in the page, so
+ * detached nodes of re-rendered subtrees are released without a full scan.
+ */
+const MIN_PRUNE_THRESHOLD = 1000;
+
+/**
+ * Element Registry class
+ */
+export class ElementRegistry {
+  private refs: WeakMap<Element, string> = new WeakMap();
+  private nodes: Map<string, Element> = new Map();
+  private keyRefs: Map<string, string> = new Map();
+  private nextId: number = 1;
+  private pruneThreshold: number = MIN_PRUNE_THRESHOLD;
+
+  /**
+   * Get the ref for an element, assigning a new one on first sight
+   */
+  getRef(element: Element): string {
+    let ref = this.refs.get(element);
+    
+    if (!ref) {
+      ref = `e${this.nextId++}`;
+      this.refs.set(element, ref);
+    }
+    
+    // Re-register in case the ref was pruned while the node was detached
+    this.nodes.set(ref, element);
+
+    if (this.nodes.size > this.pruneThreshold) {
+      this.prune();
+    }
+    
+    return ref;
+  }
+
+  /**
+   * Get the ref for something identified by a key rather than by one node
+   * (such as a choice group without a container element). The ref resolves
+   * to the element currently passed in for the key.
+   */
+  getKeyRef(key: string, element: Element): string {
+    let ref = this.keyRefs.get(key);
+    
+    if (!ref) {
+      ref = `e${this.nextId++}`;
+      this.keyRefs.set(key, ref);
+    }
+    
+    this.nodes.set(ref, element);
+
+    if (this.nodes.size > this.pruneThreshold) {
+      this.prune();
+    }
+    
+    return ref;
+  }
+
+  /**
+   * Get the ref of an element without assigning one
+   */
+  peekRef(element: Element): string | undefined {
+    return this.refs.get(element);
+  }
+
+  /**
+   * Resolve a ref to its live element.
+   * Returns null for unknown refs and for elements no longer in the page.
+   */
+  resolve(ref: string): HTMLElement | null {
+    const element = this.nodes.get(ref.trim());
+    
+    if (!element || !element.isConnected) {
+      return null;
+    }
+    
+    return element as HTMLElement;
+  }
+
+  /**
+   * Check whether a ref was ever handed out and is still registered
+   */
+  has(ref: string): boolean {
+    return this.nodes.has(ref.trim());
+  }
+
+  /**
+   * Drop refs of elements that are no longer in the page.
+   * Refs for the WeakMap side are released together with the nodes.
+   */
+  prune(): number {
+    let removed = 0;
+    
+    for (const [ref, element] of this.nodes) {
+      if (!element.isConnected) {
+        this.nodes.delete(ref);
+        removed++;
+      }
+    }
+
+    for (const [key, ref] of this.keyRefs) {
+      if (!this.nodes.has(ref)) {
+        this.keyRefs.delete(key);
+      }
+    }
+
+    this.pruneThreshold = Math.max(MIN_PRUNE_THRESHOLD, this.nodes.size * 2);
+    
+    return removed;
+  }
+
+  /**
+   * Forget all refs
+   */
+  clear(): void {
+    this.refs = new WeakMap();
+    this.nodes.clear();
+    this.keyRefs.clear();
+    this.pruneThreshold = MIN_PRUNE_THRESHOLD;
+  }
+
+  /**
+   * Number of registered refs
+   */
+  get size(): number {
+    return this.nodes.size;
+  }
+}
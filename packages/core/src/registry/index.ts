@@ -0,0 +1 @@
+export { ElementRegistry, isElementRef } from './ElementRegistry';
@@ -2,8 +2,27 @@
  * DOM Scanner - Performance-optimized DOM traversal and element detection
  */
 
-import type { UIElement, ElementType, UUICSConfig, SelectOption, SelectMetadata } from '../types';
-import { isElementVisible, getElementSelector, getElementBounds, hash, generateId } from '../utils';
+import type {
+  UIElement,
+  ElementType,
+  ElementState,
+  UUICSConfig,
+  SelectOption,
+  SelectMetadata,
+  ElementRecognizer,
+  BlockingDialog,
+} from '../types';
+import { isElementVisible, getElementBounds, hash, isInstanceOf } from '../utils';
+import { getElementViewport } from '../utils/viewport';
+import { findBlockingModal, isInert, isInside, isModalDialog } from '../utils/modal';
+import { getFieldValidation } from '../utils/validation';
+import { buildLocators } from '../utils/locators';
+import { buildFingerprint } from '../utils/fingerprint';
+import { ElementRegistry } from '../registry';
+import { RecognizerRegistry, type RecognitionMatch } from '../recognizers';
+import { computeAccessibleName, computeAccessibleDescription, getElementRole } from '../utils/accessibility';
+import { getDeepSelector, getFrameDocument, getFrameSelector, getComposedParent } from '../utils/deepQuery';
+import { getSection, getEnclosingSections, pushSection, formatSectionPath, type Section } from './sections';
 
 /**
  * Scanner configuration
@@ -21,8 +40,19 @@ interface ScannerConfig {
   excludeElements?: string[];
   filter?: (element: HTMLElement) => boolean;
   maxElements?: number;
+  frames: boolean;
+  tree: boolean;
+  viewport: boolean;
 }
 
+/**
+ * Attributes whose changes invalidate a cached element
+ */
+const STATE_ATTRIBUTES = [
+  'disabled', 'aria-disabled', 'aria-checked', 'aria-selected', 'aria-expanded',
+  'aria-pressed', 'aria-valuenow', 'aria-valuetext', 'data-state',
+];
+
 /**
  * Element cache entry
  */
@@ -38,9 +68,20 @@ interface CacheEntry {
 export class DOMScanner {
   private config: ScannerConfig;
   private cache: WeakMap<HTMLElement, CacheEntry>;
+  private registry: ElementRegistry;
+  private recognizers: RecognizerRegistry;
   private elementCount: number = 0;
+  private sectionStack: Section[] = [];
+  private sectionNodes: Map<HTMLElement, UIElement> = new Map();
+  private treeRoots: UIElement[] | null = null;
+  private scrollContainers: Map<Element, HTMLElement | null> = new Map();
+  private modal: HTMLElement | null = null;
+  private blockingDialog: BlockingDialog | undefined;
+
+  constructor(config?: Partial<UUICSConfig>, registry?: ElementRegistry, recognizers?: RecognizerRegistry) {
+    this.registry = registry ?? new ElementRegistry();
+    this.recognizers = recognizers ?? new RecognizerRegistry();
 
-  constructor(config?: Partial<UUICSConfig>) {
     this.config = {
       depth: config?.scan?.depth ?? 10,
       includeHidden: config?.scan?.includeHidden ?? false,
@@ -54,6 +95,9 @@ export class DOMScanner {
       excludeElements: this.parseElements(config?.scan?.excludeElements),
       filter: config?.scan?.filter,
       maxElements: config?.performance?.maxElements ?? 1000,
+      frames: config?.scan?.frames ?? true,
+      tree: config?.scan?.tree ?? false,
+      viewport: config?.scan?.viewport ?? true,
     };
     
     this.cache = new WeakMap();
@@ -156,6 +200,9 @@ export class DOMScanner {
     this.config = scanConfig;
     
     let elements: UIElement[] = [];
+    this.sectionNodes.clear();
+    this.treeRoots = scanConfig.tree ? [] : null;
+    this.updateBlockingModal();
     
     // Handle root selectors (multiple roots)
     if (scanConfig.rootSelectors && scanConfig.rootSelectors.length > 0) {
@@ -163,6 +210,7 @@ export class DOMScanner {
         const roots = document.querySelectorAll(selector);
         for (const rootElement of Array.from(roots)) {
           if (rootElement instanceof HTMLElement) {
+            this.sectionStack = getEnclosingSections(rootElement);
             elements.push(...this.scanRecursive(rootElement, 0));
           }
         }
@@ -170,9 +218,14 @@ export class DOMScanner {
     } else {
       // Default: scan from provided root or document.body
       const scanRoot = root || document.body;
+      this.sectionStack = root ? getEnclosingSections(scanRoot) : [];
       elements = this.scanRecursive(scanRoot, 0);
     }
     
+    this.sectionStack = [];
+    this.sectionNodes.clear();
+    this.scrollContainers.clear();
+    
     // Restore original config
     this.config = previousConfig;
     
@@ -186,6 +239,164 @@ export class DOMScanner {
     return elements;
   }
 
+  /**
+   * Rescan a single subtree (used for incremental updates).
+   * The subtree is scanned at its real depth and skipped entirely
+   * when it sits inside an excluded region.
+   */
+  scanSubtree(root: HTMLElement): UIElement[] {
+    this.elementCount = 0;
+    
+    if (!root.isConnected) {
+      return [];
+    }
+    
+    // Compute the depth the subtree would have in a full scan from the body,
+    // respecting exclusions that a full scan would apply to its ancestors
+    let depth = 0;
+    let current: Element | null = root;
+    while (current && current !== root.ownerDocument.body) {
+      current = getComposedParent(current);
+      depth++;
+      
+      if (current && this.isExcluded(current as HTMLElement)) {
+        return [];
+      }
+    }
+    
+    if (!current) {
+      return [];
+    }
+    
+    // Subtree rescans patch the flat list only; the tree is rebuilt by full scans
+    this.treeRoots = null;
+    this.updateBlockingModal();
+    this.sectionStack = getEnclosingSections(root);
+    
+    const elements = this.scanRecursive(root, depth);
+    this.sectionStack = [];
+    this.scrollContainers.clear();
+    
+    return elements;
+  }
+
+  /**
+   * Recompute the live state of elements kept from an earlier scan. A drawer,
+   * sticky header or overlay opening elsewhere covers them without touching them.
+   */
+  refreshLiveState(elements: UIElement[]): UIElement[] {
+    const refreshed = elements.map(element => {
+      const node = this.getNode(element);
+      if (!node) {
+        return element;
+      }
+      
+      const { viewport: _viewport, blockedBy: _blockedBy, validation: _validation, ...rest } = element;
+      return this.withLiveState(rest, node);
+    });
+    
+    this.scrollContainers.clear();
+    return refreshed;
+  }
+
+  /**
+   * Get the element tree built by the last full scan in tree mode:
+   * elements nested under the landmark, heading, fieldset and dialog
+   * elements that contain them (via UIElement.children)
+   */
+  getTree(): UIElement[] | undefined {
+    return this.treeRoots ?? undefined;
+  }
+
+  /**
+   * Get the modal dialog that blocked the rest of the page during the last scan
+   */
+  getBlockingDialog(): BlockingDialog | undefined {
+    return this.blockingDialog;
+  }
+
+  /**
+   * Check whether a different modal dialog (or none) blocks the page now than
+   * during the last scan, in which case every element needs a rescan
+   */
+  hasModalChanged(): boolean {
+    return findBlockingModal(document) !== this.modal;
+  }
+
+  /**
+   * Look up the topmost open modal dialog before scanning
+   */
+  private updateBlockingModal(): void {
+    this.modal = findBlockingModal(document);
+    this.blockingDialog = this.modal
+      ? {
+          ref: this.registry.getRef(this.modal),
+          selector: getDeepSelector(this.modal),
+          label: computeAccessibleName(this.modal) || 'Dialog',
+        }
+      : undefined;
+  }
+
+  /**
+   * Check whether an element (and therefore its subtree) is excluded from scanning
+   */
+  private isExcluded(element: HTMLElement): boolean {
+    if (this.config.excludeSelectors && this.config.excludeSelectors.length > 0) {
+      for (const excludeSelector of this.config.excludeSelectors) {
+        if (element.matches(excludeSelector)) {
+          return true;
+        }
+      }
+    }
+    
+    if (this.config.excludeElements?.includes(element.tagName.toLowerCase())) {
+      return true;
+    }
+    
+    if (this.config.excludePatterns && this.config.excludePatterns.length > 0) {
+      const elementInfo = this.getElementInfo(element);
+      return this.config.excludePatterns.some(pattern => pattern.test(elementInfo));
+    }
+    
+    return false;
+  }
+
+  /**
+   * Get the live DOM node a UIElement was built from
+   */
+  getNode(element: UIElement): HTMLElement | undefined {
+    return this.registry.resolve(element.id) ?? undefined;
+  }
+
+  /**
+   * Get the element registry used to assign refs
+   */
+  getRegistry(): ElementRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Register a recognizer for a component library pattern.
+   * It is tried before the recognizers registered earlier.
+   */
+  registerRecognizer(recognizer: ElementRecognizer): void {
+    this.recognizers.register(recognizer);
+  }
+
+  /**
+   * Remove a recognizer by name
+   */
+  unregisterRecognizer(name: string): boolean {
+    return this.recognizers.unregister(name);
+  }
+
+  /**
+   * Get the recognizer registry shared with the executor
+   */
+  getRecognizers(): RecognizerRegistry {
+    return this.recognizers;
+  }
+
   /**
    * Recursively scan DOM tree
    */
@@ -230,24 +441,23 @@ export class DOMScanner {
       }
     }
     
-    // Get children once for reuse (avoid multiple Array.from calls)
-    const children = element.children;
+    // Get children once for reuse (light DOM children plus open shadow root content)
+    const children = this.getChildElements(element);
     const childrenLength = children.length;
     
+    // Check if element is interactive and passes include/visibility/filter checks
+    // (elements that fail are skipped, but their children are still scanned)
+    let shouldIncludeElement = true;
+    
     // Check if element type is in include list (if specified)
     if (this.config.includeElements && this.config.includeElements.length > 0) {
       if (!this.config.includeElements.includes(tagName)) {
-        // Element type not in include list, skip it but continue scanning children
-        for (let i = 0; i < childrenLength; i++) {
-          if (this.elementCount >= this.config.maxElements!) break;
-          elements.push(...this.scanRecursive(children[i] as HTMLElement, depth + 1));
-        }
-        return elements;
+        shouldIncludeElement = false;
       }
     }
     
     // Check if element matches include patterns (reuse elementInfo if already built)
-    if (this.config.includePatterns && this.config.includePatterns.length > 0) {
+    if (shouldIncludeElement && this.config.includePatterns && this.config.includePatterns.length > 0) {
       if (!elementInfo) elementInfo = this.getElementInfo(element);
       let matchesInclude = false;
       for (const pattern of this.config.includePatterns) {
@@ -257,20 +467,12 @@ export class DOMScanner {
         }
       }
       if (!matchesInclude) {
-        // Element doesn't match include patterns, skip it but continue scanning children
-        for (let i = 0; i < childrenLength; i++) {
-          if (this.elementCount >= this.config.maxElements!) break;
-          elements.push(...this.scanRecursive(children[i] as HTMLElement, depth + 1));
-        }
-        return elements;
+        shouldIncludeElement = false;
       }
     }
     
-    // Check if element is interactive and passes visibility/filter checks
-    let shouldIncludeElement = true;
-    
     // Check visibility
-    if (!this.config.includeHidden && !isElementVisible(element)) {
+    if (shouldIncludeElement && !this.config.includeHidden && !isElementVisible(element)) {
       shouldIncludeElement = false;
     }
     
@@ -279,12 +481,18 @@ export class DOMScanner {
       shouldIncludeElement = false;
     }
     
+    // Open a section for landmarks, headings, fieldsets and dialogs.
+    // Structural sections end with this element's subtree; heading sections
+    // stay open for the following content until superseded.
+    const sectionDepth = this.sectionStack.length;
+    const section = this.openSection(element);
+    
     // Add element if it passes all checks
     if (shouldIncludeElement) {
-    const uiElement = this.analyzeElement(element);
-    if (uiElement) {
-      elements.push(uiElement);
-      this.elementCount++;
+      const uiElement = this.analyzeElement(element);
+      if (uiElement) {
+        elements.push(this.placeElement(uiElement, element, section));
+        this.elementCount++;
       }
     }
     
@@ -294,13 +502,118 @@ export class DOMScanner {
       elements.push(...this.scanRecursive(children[i] as HTMLElement, depth + 1));
     }
     
+    if (section && section.kind !== 'heading') {
+      this.sectionStack.length = sectionDepth;
+    }
+    
     return elements;
   }
 
+  /**
+   * Push the section an element opens (if any) onto the section stack
+   */
+  private openSection(element: HTMLElement): Section | null {
+    const section = getSection(element);
+    if (!section) return null;
+    
+    // Hidden headings do not structure the visible page
+    if (section.kind === 'heading' && !this.config.includeHidden && !isElementVisible(element)) {
+      return null;
+    }
+    
+    pushSection(this.sectionStack, section);
+    return section;
+  }
+
+  /**
+   * Attach the section path to a scanned element and, in tree mode,
+   * add it to the children of its innermost section
+   */
+  private placeElement(uiElement: UIElement, element: HTMLElement, section: Section | null): UIElement {
+    // The element's own section is not part of its path
+    const enclosing = section ? this.sectionStack.slice(0, -1) : this.sectionStack;
+    const fingerprint = uiElement.metadata?.fingerprint;
+    
+    const placed: UIElement = enclosing.length > 0
+      ? {
+          ...uiElement,
+          sectionPath: formatSectionPath([...enclosing.map(s => s.label), uiElement.label]),
+          metadata: {
+            ...uiElement.metadata,
+            ...(fingerprint ? { fingerprint: { ...fingerprint, section: enclosing[enclosing.length - 1].label } } : {}),
+          },
+        }
+      : uiElement;
+    
+    if (this.treeRoots) {
+      const node: UIElement = section
+        ? {
+            ...placed,
+            children: [],
+            metadata: { ...placed.metadata, section: { kind: section.kind, label: section.label } },
+          }
+        : placed;
+      const parent = this.findSectionNode(enclosing);
+      
+      if (parent) {
+        parent.children!.push(node);
+      } else {
+        this.treeRoots.push(node);
+      }
+      
+      if (section) {
+        this.sectionNodes.set(element, node);
+      }
+    }
+    
+    return placed;
+  }
+
+  /**
+   * Find the tree node of the innermost section that was itself scanned
+   */
+  private findSectionNode(sections: Section[]): UIElement | undefined {
+    for (let i = sections.length - 1; i >= 0; i--) {
+      const node = this.sectionNodes.get(sections[i].element);
+      if (node) return node;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the elements to descend into: light DOM children followed by
+   * the children of an open shadow root (Web Components), or the body
+   * of a same-origin iframe
+   */
+  private getChildElements(element: HTMLElement): Element[] {
+    const children = Array.from(element.children);
+    
+    if (element.shadowRoot) {
+      children.push(...Array.from(element.shadowRoot.children));
+    }
+    
+    if (this.config.frames) {
+      const frameBody = getFrameDocument(element)?.body;
+      if (frameBody) {
+        children.push(frameBody);
+      }
+    }
+    
+    return children;
+  }
+
   /**
    * Analyze a single element and determine if it's interactive
    */
   private analyzeElement(element: HTMLElement): UIElement | null {
+    // Recognized components are not cached: their state often lives
+    // outside the element (e.g. options in a portal)
+    const match = this.recognizers.size > 0 ? this.recognizers.recognize(element) : null;
+    if (match) {
+      const type = match.result.type ?? this.getElementType(element);
+      return this.withLiveState(this.buildUIElement(element, type, match), element);
+    }
+    
     const type = this.getElementType(element);
     
     // Check cache
@@ -309,13 +622,15 @@ export class DOMScanner {
     
     if (cached && cached.hash === elementHash) {
       // Return cached element with updated timestamp
-      return {
+      // (the ref is looked up again in case it was pruned while the node was detached)
+      return this.withLiveState({
         ...cached.element,
+        id: this.registry.getRef(element),
         metadata: {
           ...cached.element.metadata,
           lastUpdated: Date.now(),
         },
-      };
+      }, element);
     }
     
     // Build UI element
@@ -328,24 +643,52 @@ export class DOMScanner {
       timestamp: Date.now(),
     });
     
+    return this.withLiveState({ ...uiElement }, element);
+  }
+
+  /**
+   * Add information that scrolling, overlays, an opening modal or validation
+   * can change without touching the element itself (so it is never cached)
+   */
+  private withLiveState(uiElement: UIElement, element: HTMLElement): UIElement {
+    if (this.config.viewport && uiElement.visible) {
+      uiElement.viewport = getElementViewport(element, this.scrollContainers);
+    }
+    
+    if (isInert(element)) {
+      uiElement.blockedBy = { reason: 'inert' };
+    } else if (this.modal && this.blockingDialog && !isInside(this.modal, element)) {
+      uiElement.blockedBy = { reason: 'modal', dialog: this.blockingDialog };
+    }
+    
+    const validation = getFieldValidation(element);
+    if (validation) {
+      uiElement.validation = validation;
+    }
+    
     return uiElement;
   }
 
   /**
    * Build UIElement object from HTMLElement
    */
-  private buildUIElement(element: HTMLElement, type: ElementType): UIElement {
+  private buildUIElement(element: HTMLElement, type: ElementType, match?: RecognitionMatch): UIElement {
     const tag = element.tagName.toLowerCase();
-    const selector = getElementSelector(element);
-    const label = this.getElementLabel(element);
+    const selector = getDeepSelector(element);
+    // The accessible name is costly: compute it once for the label, locators and fingerprint
+    const name = computeAccessibleName(element);
+    const label = this.getElementLabel(element, type, name);
+    const role = getElementRole(element);
+    const description = computeAccessibleDescription(element);
     const attributes = this.getRelevantAttributes(element);
     const value = this.getElementValue(element);
     const text = this.getElementText(element);
     const visible = isElementVisible(element);
     const enabled = !this.isDisabled(element);
+    const state = this.getElementState(element, type);
     
     const uiElement: UIElement = {
-      id: element.id || generateId('element'),
+      id: this.registry.getRef(element),
       type,
       tag,
       selector,
@@ -358,11 +701,32 @@ export class DOMScanner {
       metadata: {
         hash: this.hashElement(element),
         lastUpdated: Date.now(),
+        fingerprint: buildFingerprint(element, name),
       },
     };
     
+    if (role) {
+      uiElement.role = role;
+    }
+    
+    if (state) {
+      uiElement.state = state;
+    }
+    
+    if (description) {
+      uiElement.description = description;
+    }
+    
+    uiElement.locators = buildLocators(element, selector, name);
+    
+    // Record the frame for elements inside same-origin iframes
+    const frame = getFrameSelector(element);
+    if (frame) {
+      uiElement.frame = frame;
+    }
+    
     // Extract options for select elements
-    if (type === 'select' && element instanceof HTMLSelectElement) {
+    if (type === 'select' && isInstanceOf(element, HTMLSelectElement)) {
       const options = this.extractSelectOptions(element);
       const selectMetadata = this.extractSelectMetadata(element, options);
       
@@ -375,6 +739,8 @@ export class DOMScanner {
       // Store in metadata for backward compatibility
       uiElement.metadata!.options = options;
       uiElement.metadata!.selectMetadata = selectMetadata;
+    } else if (role === 'listbox') {
+      this.applyListboxOptions(uiElement, element);
     }
     
     // Add bounds if configured
@@ -382,9 +748,52 @@ export class DOMScanner {
       uiElement.bounds = getElementBounds(element);
     }
     
+    if (match) {
+      this.applyRecognition(uiElement, match);
+    }
+    
     return uiElement;
   }
 
+  /**
+   * Override generic detection with what a recognizer found
+   */
+  private applyRecognition(uiElement: UIElement, match: RecognitionMatch): void {
+    const { recognizer, result } = match;
+    
+    uiElement.recognizer = recognizer.name;
+    
+    if (result.label) {
+      uiElement.label = result.label;
+    }
+    
+    if (result.value !== undefined) {
+      uiElement.value = result.value;
+    }
+    
+    if (result.attributes) {
+      uiElement.attributes = { ...uiElement.attributes, ...result.attributes };
+    }
+    
+    if (result.options) {
+      const selectMetadata: SelectMetadata = {
+        options: result.options,
+        multiple: Array.isArray(result.value),
+        selectedValues: result.options.filter(opt => opt.selected).map(opt => opt.value),
+      };
+      
+      uiElement.options = result.options;
+      uiElement.selectMetadata = selectMetadata;
+      uiElement.metadata!.options = result.options;
+      uiElement.metadata!.selectMetadata = selectMetadata;
+    }
+    
+    if (result.actions && result.actions.length > 0) {
+      // Only the serializable description goes into the context
+      uiElement.customActions = result.actions.map(({ execute, ...info }) => info);
+    }
+  }
+
   /**
    * Extract options from a select element
    */
@@ -406,6 +815,37 @@ export class DOMScanner {
     return options;
   }
 
+  /**
+   * Read the options of an ARIA listbox; a multiselectable listbox takes
+   * the selected values as an array
+   */
+  private applyListboxOptions(uiElement: UIElement, listbox: HTMLElement): void {
+    const optionElements = Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'));
+    if (optionElements.length === 0) return;
+    
+    const options: SelectOption[] = optionElements.map((option, index) => {
+      const text = (option.textContent || '').replace(/\s+/g, ' ').trim();
+      return {
+        value: option.getAttribute('data-value') ?? option.getAttribute('value') ?? text,
+        label: computeAccessibleName(option) || text,
+        selected: option.getAttribute('aria-selected') === 'true' || option.getAttribute('aria-checked') === 'true',
+        disabled: option.getAttribute('aria-disabled') === 'true',
+        text,
+        index,
+      };
+    });
+    
+    const multiple = listbox.getAttribute('aria-multiselectable') === 'true';
+    const selectedValues = options.filter(opt => opt.selected).map(opt => opt.value);
+    const selectMetadata: SelectMetadata = { options, multiple, selectedValues };
+    
+    uiElement.value = multiple ? selectedValues : selectedValues[0] ?? '';
+    uiElement.options = options;
+    uiElement.selectMetadata = selectMetadata;
+    uiElement.metadata!.options = options;
+    uiElement.metadata!.selectMetadata = selectMetadata;
+  }
+
   /**
    * Extract metadata for a select element
    */
@@ -427,10 +867,10 @@ export class DOMScanner {
    */
   private createOptionElement(option: SelectOption, selectElement: HTMLSelectElement): UIElement {
     return {
-      id: generateId('option'),
+      id: this.registry.getRef(selectElement.options[option.index]),
       type: 'other',
       tag: 'option',
-      selector: `${getElementSelector(selectElement)} > option:nth-child(${option.index + 1})`,
+      selector: `${getDeepSelector(selectElement)} > option:nth-child(${option.index + 1})`,
       label: option.label,
       attributes: {
         value: option.value,
@@ -465,6 +905,15 @@ export class DOMScanner {
       if (role === 'checkbox') return 'checkbox';
       if (role === 'radio') return 'radio';
       if (role === 'combobox' || role === 'listbox') return 'select';
+      if (role === 'switch') return 'switch';
+      if (role === 'slider') return 'slider';
+      if (role === 'tab') return 'tab';
+      if (role === 'menu' || role === 'menubar') return 'menu';
+      if (role === 'menuitem' || role === 'menuitemcheckbox' || role === 'menuitemradio') return 'menuitem';
+      if (role === 'dialog' || role === 'alertdialog') return 'dialog';
+      if (role === 'grid' || role === 'treegrid') return 'grid';
+      if (role === 'tree') return 'tree';
+      if (role === 'treeitem') return 'treeitem';
     }
     
     // ContentEditable elements (divs used as text inputs)
@@ -482,13 +931,14 @@ export class DOMScanner {
     if (tag === 'output') return 'text'; // Output shows results
     if (tag === 'meter' || tag === 'progress') return 'other'; // Progress indicators
     if (tag === 'details') return 'button'; // Details acts like a toggle
-    if (tag === 'dialog') return 'container'; // Dialog is a container
+    if (tag === 'dialog') return 'dialog';
     if (tag === 'fieldset') return 'container'; // Fieldset groups elements
     
     // Input types
     if (tag === 'input') {
       if (type === 'checkbox') return 'checkbox';
       if (type === 'radio') return 'radio';
+      if (type === 'range') return 'slider';
       if (type === 'submit' || type === 'button') return 'button';
       return 'input';
     }
@@ -529,74 +979,50 @@ export class DOMScanner {
   }
 
   /**
-   * Get human-readable label for element
+   * Get human-readable label for element.
+   * Uses the accessible name (W3C AccName), i.e. what a screen reader announces.
    */
-  private getElementLabel(element: HTMLElement): string {
-    // Check for associated label
-    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-      const label = element.labels?.[0];
-      let labelText = label?.textContent?.trim() || '';
-      
-      // For special input types, enhance the label
-      if (element instanceof HTMLInputElement) {
-        const type = element.type;
-        // Only enhance if the label is generic (single word like "Date", "Time", etc.)
-        if (labelText && labelText.split(' ').length <= 2) {
-          switch (type) {
-            case 'date':
-              labelText = `${labelText} (Date Picker)`;
-              break;
-            case 'time':
-              labelText = `${labelText} (Time Picker)`;
-              break;
-            case 'color':
-              labelText = `${labelText} (Color Picker)`;
-              break;
-            case 'range':
-              labelText = `${labelText} (Slider)`;
-              break;
-            case 'file':
-              labelText = `${labelText} (File Upload)`;
-              break;
-          }
+  private getElementLabel(element: HTMLElement, type: ElementType, accessibleName: string): string {
+    let labelText = accessibleName;
+    
+    // For special input types, enhance the label
+    if (isInstanceOf(element, HTMLInputElement)) {
+      const inputType = element.type;
+      // Only enhance if the label is generic (single word like "Date", "Time", etc.)
+      if (labelText && labelText.split(' ').length <= 2) {
+        switch (inputType) {
+          case 'date':
+            labelText = `${labelText} (Date Picker)`;
+            break;
+          case 'time':
+            labelText = `${labelText} (Time Picker)`;
+            break;
+          case 'color':
+            labelText = `${labelText} (Color Picker)`;
+            break;
+          case 'range':
+            labelText = `${labelText} (Slider)`;
+            break;
+          case 'file':
+            labelText = `${labelText} (File Upload)`;
+            break;
         }
       }
-      
-      if (labelText) return labelText;
-    }
-    
-    // Check aria-label
-    const ariaLabel = element.getAttribute('aria-label');
-    if (ariaLabel) return ariaLabel;
-    
-    // Check aria-labelledby
-    const ariaLabelledBy = element.getAttribute('aria-labelledby');
-    if (ariaLabelledBy) {
-      const labelElement = document.getElementById(ariaLabelledBy);
-      if (labelElement?.textContent) return labelElement.textContent.trim();
     }
     
-    // Check placeholder
-    const placeholder = element.getAttribute('placeholder');
-    if (placeholder) return placeholder;
+    if (labelText) return labelText;
     
-    // Check name attribute
+    // Unnamed form controls: the name attribute is still a useful hint
     const name = element.getAttribute('name');
     if (name) return name;
     
-    // Check title
-    const title = element.getAttribute('title');
-    if (title) return title;
-    
-    // Use text content for buttons/links
-    const tag = element.tagName.toLowerCase();
-    if (['button', 'a'].includes(tag)) {
-      const text = element.textContent?.trim();
-      if (text) return text;
+    // Elements made clickable by script (no button/link role) are not named
+    // from content by AccName, but their text is what the user sees
+    if (type === 'button' || type === 'link') {
+      return this.getElementText(element) ?? '';
     }
     
-    // Fall back to tag name
-    return tag;
+    return '';
   }
 
   /**
@@ -619,6 +1045,8 @@ export class DOMScanner {
       // UI framework state attributes
       'data-state', // Radix UI uses this for checked/unchecked state
       'open',
+      // Drag and drop
+      'draggable',
     ];
     
     for (const attr of relevantAttrs) {
@@ -626,7 +1054,10 @@ export class DOMScanner {
         const value = element.getAttribute(attr);
         
         // Boolean attributes
-        if (['required', 'disabled', 'readonly', 'contenteditable', 'multiple', 'open'].includes(attr)) {
+        if (attr === 'draggable') {
+          // "auto" (and the empty value) leave it to the browser's default
+          attrs[attr] = value === 'true';
+        } else if (['required', 'disabled', 'readonly', 'contenteditable', 'multiple', 'open'].includes(attr)) {
           attrs[attr] = value === 'true' || value === '' || value === attr;
         } else if (value !== null) {
           // Try to parse as number
@@ -649,7 +1080,7 @@ export class DOMScanner {
     }
     
     // Native form elements
-    if (element instanceof HTMLInputElement) {
+    if (isInstanceOf(element, HTMLInputElement)) {
       if (element.type === 'checkbox' || element.type === 'radio') {
         return element.checked;
       }
@@ -659,11 +1090,11 @@ export class DOMScanner {
       return element.value;
     }
     
-    if (element instanceof HTMLTextAreaElement) {
+    if (isInstanceOf(element, HTMLTextAreaElement)) {
       return element.value;
     }
     
-    if (element instanceof HTMLSelectElement) {
+    if (isInstanceOf(element, HTMLSelectElement)) {
       if (element.multiple) {
         return Array.from(element.selectedOptions).map(opt => opt.value);
       }
@@ -671,11 +1102,11 @@ export class DOMScanner {
     }
     
     // Progress and meter elements
-    if (element instanceof HTMLProgressElement) {
+    if (isInstanceOf(element, HTMLProgressElement)) {
       return element.value;
     }
     
-    if (element instanceof HTMLMeterElement) {
+    if (isInstanceOf(element, HTMLMeterElement)) {
       return element.value;
     }
     
@@ -690,6 +1121,11 @@ export class DOMScanner {
       return element.textContent?.trim() || '';
     }
     
+    if (role === 'slider' || role === 'spinbutton') {
+      const valueNow = parseFloat(element.getAttribute('aria-valuenow') || '');
+      return isNaN(valueNow) ? undefined : valueNow;
+    }
+    
     if (role === 'checkbox' || role === 'radio' || role === 'switch') {
       // Check aria-checked first
       const ariaChecked = element.getAttribute('aria-checked');
@@ -705,6 +1141,78 @@ export class DOMScanner {
     return undefined;
   }
 
+  /**
+   * Get widget state from native properties and ARIA state attributes
+   */
+  private getElementState(element: HTMLElement, type: ElementType): ElementState | undefined {
+    const state: ElementState = {};
+    const tristate = (value: string | null): boolean | 'mixed' | undefined =>
+      value === 'mixed' ? 'mixed' : value === 'true' ? true : value === 'false' ? false : undefined;
+    const boolean = (value: string | null): boolean | undefined =>
+      value === 'true' ? true : value === 'false' ? false : undefined;
+    const number = (value: string | null): number | undefined => {
+      const parsed = parseFloat(value ?? '');
+      return isNaN(parsed) ? undefined : parsed;
+    };
+    
+    // Checked: native checkboxes/radios first, then ARIA (Radix uses data-state)
+    if (isInstanceOf(element, HTMLInputElement) && (element.type === 'checkbox' || element.type === 'radio')) {
+      state.checked = element.indeterminate ? 'mixed' : element.checked;
+    } else if (element.hasAttribute('aria-checked')) {
+      state.checked = tristate(element.getAttribute('aria-checked'));
+    } else if (type === 'switch' && element.hasAttribute('data-state')) {
+      state.checked = element.getAttribute('data-state') === 'checked' || element.getAttribute('data-state') === 'on';
+    }
+    
+    state.selected = boolean(element.getAttribute('aria-selected'));
+    state.pressed = tristate(element.getAttribute('aria-pressed'));
+    
+    // Expanded: <details> and ARIA disclosures
+    if (element.tagName.toLowerCase() === 'details') {
+      state.expanded = (element as HTMLDetailsElement).open;
+    } else {
+      state.expanded = boolean(element.getAttribute('aria-expanded'));
+    }
+    
+    if (type === 'slider') {
+      if (isInstanceOf(element, HTMLInputElement)) {
+        state.valueNow = number(element.value);
+        state.valueMin = number(element.min) ?? 0;
+        state.valueMax = number(element.max) ?? 100;
+      } else {
+        state.valueNow = number(element.getAttribute('aria-valuenow'));
+        state.valueMin = number(element.getAttribute('aria-valuemin')) ?? 0;
+        state.valueMax = number(element.getAttribute('aria-valuemax')) ?? 100;
+      }
+      state.valueText = element.getAttribute('aria-valuetext') || undefined;
+    }
+    
+    const orientation = element.getAttribute('aria-orientation');
+    if (orientation === 'horizontal' || orientation === 'vertical') {
+      state.orientation = orientation;
+    }
+    
+    if (type === 'dialog') {
+      state.open = isInstanceOf(element, HTMLDialogElement)
+        ? element.open
+        : isElementVisible(element);
+      state.modal = element.getAttribute('aria-modal') === 'true' || isModalDialog(element);
+    }
+    
+    if (type === 'treeitem') {
+      state.level = number(element.getAttribute('aria-level'));
+    }
+    
+    state.multiselectable = boolean(element.getAttribute('aria-multiselectable'));
+    
+    // Drop the fields that do not apply
+    for (const key of Object.keys(state) as Array<keyof ElementState>) {
+      if (state[key] === undefined) delete state[key];
+    }
+    
+    return Object.keys(state).length > 0 ? state : undefined;
+  }
+
   /**
    * Get element text content
    */
@@ -733,6 +1241,9 @@ export class DOMScanner {
       element.getAttribute('name') || '',
       this.getElementValue(element)?.toString() || '',
       element.textContent?.trim() || '',
+      // State attributes that change without touching value or text
+      ...STATE_ATTRIBUTES.map(attr => element.getAttribute(attr) ?? ''),
+      (element as HTMLDetailsElement | HTMLDialogElement).open ? 'open' : '',
     ];
     
     return hash(parts.join('|'));
@@ -1,2 +1,3 @@
 export { DOMScanner } from './DOMScanner';
-
+export { SECTION_SEPARATOR } from './sections';
+export type { SectionKind } from './sections';
@@ -0,0 +1,184 @@
+/**
+ * Sections - Landmarks, headings, fieldsets and dialogs that group elements
+ *
+ * Sections give elements a place in the page outline, so that two "Save"
+ * buttons can be told apart by the card or dialog they belong to.
+ * Structural sections (landmarks, fieldsets, dialogs) span their subtree;
+ * a heading opens a section that lasts until the next heading of the same
+ * or a higher level, or until its enclosing structural section ends.
+ */
+
+import { getElementRole, computeAccessibleName } from '../utils/accessibility';
+import { getComposedParent } from '../utils/deepQuery';
+
+/**
+ * Kind of section an element opens
+ */
+export type SectionKind = 'landmark' | 'heading' | 'fieldset' | 'dialog';
+
+/**
+ * A section opened by an element
+ */
+export interface Section {
+  /** Element that opens the section */
+  element: HTMLElement;
+
+  /** Section kind */
+  kind: SectionKind;
+
+  /** Human-readable section label used in section paths */
+  label: string;
+
+  /** Heading level (1-6) for heading sections, 0 otherwise */
+  level: number;
+}
+
+/**
+ * Separator between labels in a section path
+ */
+export const SECTION_SEPARATOR = ' › ';
+
+/**
+ * Fallback labels for unnamed landmarks
+ */
+const LANDMARK_LABELS: Record<string, string> = {
+  banner: 'Header',
+  navigation: 'Navigation',
+  main: 'Main',
+  complementary: 'Sidebar',
+  contentinfo: 'Footer',
+  search: 'Search',
+};
+
+/**
+ * Landmarks that only count when they have an accessible name
+ */
+const NAMED_LANDMARKS = new Set(['region', 'form']);
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role="heading"]';
+
+/**
+ * Get the section an element opens, or null when it does not open one
+ */
+export function getSection(element: HTMLElement): Section | null {
+  const role = getElementRole(element);
+  if (!role) return null;
+
+  if (role === 'heading') {
+    const label = computeAccessibleName(element);
+    return label ? { element, kind: 'heading', label, level: getHeadingLevel(element) } : null;
+  }
+
+  if (role === 'dialog' || role === 'alertdialog') {
+    return { element, kind: 'dialog', label: computeAccessibleName(element) || 'Dialog', level: 0 };
+  }
+
+  if (element.tagName.toLowerCase() === 'fieldset') {
+    const label = computeAccessibleName(element);
+    return label ? { element, kind: 'fieldset', label, level: 0 } : null;
+  }
+
+  if (role in LANDMARK_LABELS) {
+    return { element, kind: 'landmark', label: computeAccessibleName(element) || LANDMARK_LABELS[role], level: 0 };
+  }
+
+  if (NAMED_LANDMARKS.has(role)) {
+    const label = computeAccessibleName(element);
+    return label ? { element, kind: 'landmark', label, level: 0 } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the level of a heading element (h1-h6 or role="heading" with aria-level)
+ */
+export function getHeadingLevel(element: HTMLElement): number {
+  const match = /^h([1-6])$/.exec(element.tagName.toLowerCase());
+  const ariaLevel = parseInt(element.getAttribute('aria-level') || '', 10);
+
+  if (ariaLevel > 0) return ariaLevel;
+  return match ? parseInt(match[1], 10) : 2;
+}
+
+/**
+ * Add a section to a section stack, closing heading sections it supersedes
+ */
+export function pushSection(stack: Section[], section: Section): void {
+  if (section.kind === 'heading') {
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].kind === 'heading' &&
+      stack[stack.length - 1].level >= section.level
+    ) {
+      stack.pop();
+    }
+  }
+
+  stack.push(section);
+}
+
+/**
+ * Get the sections enclosing an element, outermost first.
+ * Used to seed the section stack when scanning a subtree on its own.
+ */
+export function getEnclosingSections(element: HTMLElement): Section[] {
+  // Structural sections are ancestors of the element
+  const structural: Section[] = [];
+  let current = getComposedParent(element);
+
+  while (current) {
+    const section = getSection(current as HTMLElement);
+    if (section && section.kind !== 'heading') {
+      structural.unshift(section);
+    }
+    current = getComposedParent(current);
+  }
+
+  // Headings open sections for what follows them inside the
+  // innermost structural section (or the document)
+  const scope: ParentNode = structural.length > 0
+    ? structural[structural.length - 1].element
+    : element.ownerDocument;
+  const stack = [...structural];
+
+  for (const heading of Array.from(scope.querySelectorAll<HTMLElement>(HEADING_SELECTOR))) {
+    const position = heading.compareDocumentPosition(element);
+    if (!(position & Node.DOCUMENT_POSITION_FOLLOWING) || heading.contains(element)) continue;
+
+    // Headings inside a nested structural section that has already ended do not apply
+    const owner = getStructuralAncestor(heading);
+    if (owner !== (structural.length > 0 ? structural[structural.length - 1].element : null)) continue;
+
+    const section = getSection(heading);
+    if (section) {
+      pushSection(stack, section);
+    }
+  }
+
+  return stack;
+}
+
+/**
+ * Get the nearest ancestor that opens a structural section
+ */
+function getStructuralAncestor(element: HTMLElement): HTMLElement | null {
+  let current = getComposedParent(element);
+
+  while (current) {
+    const section = getSection(current as HTMLElement);
+    if (section && section.kind !== 'heading') {
+      return section.element;
+    }
+    current = getComposedParent(current);
+  }
+
+  return null;
+}
+
+/**
+ * Join section labels into a path such as "Billing › Address › City"
+ */
+export function formatSectionPath(labels: string[]): string {
+  return labels.filter(label => label.length > 0).join(SECTION_SEPARATOR);
+}
@@ -2,7 +2,37 @@
  * Serializers - Convert PageContext to various formats
  */
 
-import type { PageContext, SerializationFormat, SerializedContext, UIElement } from '../types';
+import type { PageContent, PageContext, SerializationFormat, SerializedContext, TableData, UIElement } from '../types';
+import { SECTION_SEPARATOR } from '../scanner/sections';
+
+/**
+ * Element types listed in natural language output
+ */
+const ACTIONABLE_TYPES = [
+  'button', 'input', 'select', 'textarea', 'link', 'checkbox', 'radio',
+  'radiogroup', 'checkboxgroup', 'switch', 'slider', 'tab', 'menuitem', 'treeitem',
+];
+
+/**
+ * Display names for element type groups in natural language output
+ */
+const TYPE_GROUP_NAMES: Record<string, string> = {
+  switch: 'Switches',
+  menuitem: 'Menu items',
+  treeitem: 'Tree items',
+  radiogroup: 'Radio groups',
+  checkboxgroup: 'Checkbox groups',
+};
+
+/**
+ * Maximum number of elements rendered in the natural language page structure
+ */
+const MAX_TREE_ELEMENTS = 200;
+
+/**
+ * Default number of table rows rendered per table
+ */
+const DEFAULT_MAX_TABLE_ROWS = 20;
 
 /**
  * Serializer class
@@ -18,6 +48,7 @@ export class Serializer {
       pretty?: boolean;
       includeMetadata?: boolean;
       includeBounds?: boolean;
+      maxTableRows?: number;
     } = {}
   ): SerializedContext {
     let content: string | object;
@@ -49,7 +80,7 @@ export class Serializer {
    */
   private toJSON(
     context: PageContext,
-    options: { pretty?: boolean; includeBounds?: boolean }
+    options: { pretty?: boolean; includeBounds?: boolean; maxTableRows?: number }
   ): string {
     const data = {
       id: context.id,
@@ -62,8 +93,15 @@ export class Serializer {
             const { bounds, ...rest } = el;
             return rest;
           }),
+      blockingDialog: context.blockingDialog,
+      tree: context.tree && !options.includeBounds
+        ? this.stripTreeBounds(context.tree)
+        : context.tree,
       actions: context.actions,
       forms: context.forms,
+      tables: context.tables?.map(table => this.limitTableRows(table, options.maxTableRows)),
+      content: context.content,
+      announcements: context.announcements,
       metadata: context.metadata,
       state: context.state,
     };
@@ -78,6 +116,29 @@ export class Serializer {
     }
   }
 
+  /**
+   * Keep only the first rows of a table, marking it as truncated
+   */
+  private limitTableRows(table: TableData, maxRows: number = DEFAULT_MAX_TABLE_ROWS): TableData {
+    if (table.rows.length <= maxRows) {
+      return table;
+    }
+    
+    return { ...table, rows: table.rows.slice(0, maxRows), truncated: true };
+  }
+
+  /**
+   * Remove bounds from every node of an element tree
+   */
+  private stripTreeBounds(nodes: UIElement[]): UIElement[] {
+    return nodes.map(node => {
+      const { bounds, ...rest } = node;
+      return rest.children && rest.metadata?.section
+        ? { ...rest, children: this.stripTreeBounds(rest.children) }
+        : rest;
+    });
+  }
+
   /**
    * Create a replacer function that handles circular references and limits depth
    */
@@ -122,7 +183,7 @@ export class Serializer {
    */
   private toNaturalLanguage(
     context: PageContext,
-    options: { includeMetadata?: boolean }
+    options: { includeMetadata?: boolean; maxTableRows?: number }
   ): string {
     const lines: string[] = [];
 
@@ -133,10 +194,16 @@ export class Serializer {
     lines.push(`Timestamp: ${new Date(context.timestamp).toISOString()}`);
     lines.push('');
 
+    // A modal dialog decides what can be used
+    if (context.blockingDialog) {
+      const dialog = context.blockingDialog;
+      lines.push(`**A modal dialog is open: "${dialog.label}" (ref: \`${dialog.ref}\`). Elements outside it cannot be used until it is closed.**`);
+      lines.push('');
+    }
+
     // Filter out non-actionable elements and deduplicate
-    const actionableTypes = ['button', 'input', 'select', 'textarea', 'link', 'checkbox', 'radio', 'switch'];
     const filteredElements = this.deduplicateElements(
-      context.elements.filter(el => actionableTypes.includes(el.type))
+      context.elements.filter(el => ACTIONABLE_TYPES.includes(el.type))
     );
 
     // Summary
@@ -146,10 +213,25 @@ export class Serializer {
     if (context.forms && context.forms.length > 0) {
       lines.push(`Forms: ${context.forms.length}`);
     }
+    if (context.tables && context.tables.length > 0) {
+      lines.push(`Tables: ${context.tables.length}`);
+    }
     lines.push('');
 
-    // Interactive Elements (actionable only)
-    if (filteredElements.length > 0) {
+    // Interactive Elements nested under their sections (tree mode)
+    if (context.tree && filteredElements.length > 0) {
+      lines.push('## Interactive Elements\n');
+      
+      const budget = { remaining: MAX_TREE_ELEMENTS };
+      lines.push(...this.formatTreeNatural(context.tree, 0, budget));
+      
+      if (budget.remaining < 0) {
+        lines.push(`... and more (showing the first ${MAX_TREE_ELEMENTS} elements)`);
+      }
+      
+      lines.push('');
+    } else if (filteredElements.length > 0) {
+      // Interactive Elements (actionable only)
       lines.push('## Interactive Elements\n');
       
       const groupedElements = this.groupElementsByType(filteredElements);
@@ -157,7 +239,7 @@ export class Serializer {
       for (const [type, elements] of Object.entries(groupedElements)) {
         if (elements.length === 0) continue;
         
-        lines.push(`### ${this.capitalizeFirst(type)}s (${elements.length})\n`);
+        lines.push(`### ${TYPE_GROUP_NAMES[type] ?? `${this.capitalizeFirst(type)}s`} (${elements.length})\n`);
         
         for (const element of elements.slice(0, 30)) { // Show up to 30 elements per type
           lines.push(this.formatElementNatural(element));
@@ -180,17 +262,44 @@ export class Serializer {
         lines.push(`Valid: ${form.valid ? 'Yes' : 'No'}`);
         lines.push(`Fields: ${Object.keys(form.fields).length}`);
         
-        if (form.errors && Object.keys(form.errors).length > 0) {
-          lines.push('\nErrors:');
-          for (const [field, error] of Object.entries(form.errors)) {
-            lines.push(`- ${field}: ${error}`);
-          }
+        for (const field of Object.values(form.fields)) {
+          const required = field.required ? ', required' : '';
+          const value = field.value === undefined || field.value === '' ? '' : ` = ${JSON.stringify(field.value)}`;
+          const error = field.error ? ` [INVALID: ${field.error}]` : '';
+          lines.push(`- ${field.label || field.name} (\`${field.name}\`, ${field.type}${required})${value} (ref: \`${field.target}\`)${error}`);
         }
         
         lines.push('');
       }
     }
 
+    // Tables
+    if (context.tables && context.tables.length > 0) {
+      lines.push('## Tables\n');
+      
+      for (const table of context.tables) {
+        lines.push(...this.formatTableNatural(this.limitTableRows(table, options.maxTableRows)));
+        lines.push('');
+      }
+    }
+
+    // Announcements
+    if (context.announcements && context.announcements.length > 0) {
+      lines.push('## Recent Announcements\n');
+      
+      for (const announcement of context.announcements) {
+        const time = new Date(announcement.timestamp).toISOString();
+        lines.push(`- [${announcement.source.toUpperCase()}] ${announcement.text} (${time})`);
+      }
+      
+      lines.push('');
+    }
+
+    // Page content
+    if (context.content) {
+      lines.push(...this.formatContentNatural(context.content));
+    }
+
     // Available Actions (deduplicated)
     const deduplicatedActions = this.deduplicateActions(context.actions);
     
@@ -205,7 +314,9 @@ export class Serializer {
         lines.push(`### ${this.capitalizeFirst(type)} (${actions.length})\n`);
         
         for (const action of actions.slice(0, 30)) { // Show up to 30 actions per type
-          lines.push(`- ${action.description} (target: \`${action.target}\`)`);
+          const ref = action.ref ? `ref: \`${action.ref}\`, ` : '';
+          const unavailable = action.unavailableReason ? ` [UNAVAILABLE: ${action.unavailableReason}]` : '';
+          lines.push(`- ${action.description} (${ref}target: \`${action.target}\`)${unavailable}`);
         }
         
         if (actions.length > 30) {
@@ -315,7 +426,9 @@ export class Serializer {
       info: {
         title: `UI Context: ${context.title}`,
         version: '1.0.0',
-        description: `Available UI actions for ${context.url}`,
+        description: context.blockingDialog
+          ? `Available UI actions for ${context.url}. The modal dialog "${context.blockingDialog.label}" is open and blocks everything outside it.`
+          : `Available UI actions for ${context.url}`,
       },
       servers: [
         {
@@ -324,26 +437,217 @@ export class Serializer {
       ],
       tools,
       context: stateContext,
+      blockingDialog: context.blockingDialog,
+      content: context.content,
+      announcements: context.announcements,
       metadata: options.includeMetadata ? context.metadata : undefined,
     };
   }
 
+  /**
+   * Format a table as a Markdown table, with row actions in an extra column
+   */
+  private formatTableNatural(table: TableData): string[] {
+    const lines: string[] = [];
+    const escape = (text: string) => text.replace(/\|/g, '\\|');
+    const hasActions = table.rows.some(row => row.actions && row.actions.length > 0);
+    
+    lines.push(`### Table: ${table.caption || table.selector} (ref: \`${table.id}\`)\n`);
+    
+    const headers = hasActions ? [...table.headers, 'Actions'] : table.headers;
+    lines.push(`| ${headers.map(escape).join(' | ')} |`);
+    lines.push(`| ${headers.map(() => '---').join(' | ')} |`);
+    
+    for (const row of table.rows) {
+      const cells = table.headers.map((_, i) => escape(row.cells[i] ?? ''));
+      if (hasActions) {
+        cells.push((row.actions ?? []).map(action => `${escape(action.label)} (\`${action.target}\`)`).join(', '));
+      }
+      lines.push(`| ${cells.join(' | ')} |`);
+    }
+    
+    if (table.truncated) {
+      lines.push(`\n... showing ${table.rows.length} of ${table.rowCount} rows`);
+    }
+    
+    return lines;
+  }
+
+  /**
+   * Format page content as an outline, the main text and a list of details
+   */
+  private formatContentNatural(content: PageContent): string[] {
+    const lines: string[] = [];
+    if (content.headings.length === 0 && content.blocks.length === 0 && content.pairs.length === 0) {
+      return lines;
+    }
+    
+    lines.push('## Page Content\n');
+    
+    if (content.headings.length > 0) {
+      const topLevel = Math.min(...content.headings.map(heading => heading.level));
+      lines.push('### Outline\n');
+      for (const heading of content.headings) {
+        lines.push(`${'  '.repeat(heading.level - topLevel)}- ${heading.text}`);
+      }
+      lines.push('');
+    }
+    
+    if (content.blocks.length > 0) {
+      lines.push('### Main Text\n');
+      for (const block of content.blocks) {
+        switch (block.kind) {
+          case 'heading':
+            lines.push(`**${block.text}**`);
+            break;
+          case 'list':
+            lines.push(`- ${block.text}`);
+            break;
+          case 'quote':
+            lines.push(`> ${block.text}`);
+            break;
+          case 'code':
+            lines.push(`\`${block.text}\``);
+            break;
+          case 'status':
+            lines.push(`[STATUS] ${block.text}`);
+            break;
+          default:
+            lines.push(block.text);
+        }
+      }
+      lines.push('');
+    }
+    
+    if (content.pairs.length > 0) {
+      lines.push('### Details\n');
+      for (const pair of content.pairs) {
+        lines.push(`- ${pair.key}: ${pair.value}`);
+      }
+      lines.push('');
+    }
+    
+    if (content.truncated) {
+      lines.push('... content truncated (length budget reached)\n');
+    }
+    
+    return lines;
+  }
+
+  /**
+   * Format an element tree as nested lists: sections become headers of
+   * their actionable elements, and sections without any are left out
+   */
+  private formatTreeNatural(nodes: UIElement[], level: number, budget: { remaining: number }): string[] {
+    const lines: string[] = [];
+    const indent = '  '.repeat(level);
+    
+    for (const node of nodes) {
+      const section = node.metadata?.section as { kind: string; label: string } | undefined;
+      
+      if (budget.remaining <= 0) {
+        // Flag truncation only when something renderable is left out
+        if (section || ACTIONABLE_TYPES.includes(node.type)) budget.remaining = -1;
+        if (budget.remaining < 0) break;
+        continue;
+      }
+      
+      if (section && node.children) {
+        const childLines = this.formatTreeNatural(node.children, level + 1, budget);
+        if (childLines.length === 0) continue;
+        
+        lines.push(`${indent}- ${section.label} (${section.kind})`);
+        if (ACTIONABLE_TYPES.includes(node.type)) {
+          lines.push(`${indent}  ${this.formatElementNatural(node, false)}`);
+        }
+        lines.push(...childLines);
+      } else if (ACTIONABLE_TYPES.includes(node.type)) {
+        lines.push(`${indent}${this.formatElementNatural(node, false)}`);
+        budget.remaining--;
+      }
+    }
+    
+    return lines;
+  }
+
   /**
    * Format element for natural language output
    */
-  private formatElementNatural(element: UIElement): string {
+  private formatElementNatural(element: UIElement, showSection: boolean = true): string {
     const parts: string[] = [];
     
     // Include selector hint in label for disambiguation
     const selectorHint = element.selector.includes('#') 
       ? ` (${element.selector.split(/[>\s]/)[0]})` 
       : '';
-    parts.push(`- **${element.label}${selectorHint}**`);
+    const label = element.label || `(unnamed ${element.role ?? element.type})`;
+    parts.push(`- **${label}${selectorHint}**`);
+    
+    if (element.description) {
+      parts.push(`— ${element.description}`);
+    }
+    
+    // Name the sections the element sits in (the path ends with the element's own label)
+    if (showSection && element.sectionPath) {
+      const sections = element.sectionPath.split(SECTION_SEPARATOR);
+      if (element.label && sections[sections.length - 1] === element.label) {
+        sections.pop();
+      }
+      if (sections.length > 0) {
+        parts.push(`(in ${sections.join(SECTION_SEPARATOR)})`);
+      }
+    }
     
-    if (element.value !== undefined && element.value !== '') {
+    if (Array.isArray(element.value)) {
+      // Multi-select groups and listboxes list every selected value
+      parts.push(element.value.length > 0
+        ? `(selected: ${element.value.map(v => `"${v}"`).join(', ')})`
+        : '(nothing selected)');
+    } else if (element.value !== undefined && element.value !== '') {
       parts.push(`(value: "${element.value}")`);
     }
     
+    // Point out elements that live inside an iframe
+    if (element.frame) {
+      parts.push(`[in frame \`${element.frame}\`]`);
+    }
+    
+    // Widget state that the value alone does not show
+    const state = element.state;
+    if (state) {
+      if (element.type === 'switch' && state.checked !== undefined) {
+        parts.push(state.checked === true ? '[ON]' : '[OFF]');
+      }
+      if (state.valueMin !== undefined && state.valueMax !== undefined) {
+        parts.push(`(range: ${state.valueMin}–${state.valueMax}${state.valueText ? `, shown as "${state.valueText}"` : ''})`);
+      }
+      if (state.selected) {
+        parts.push('[SELECTED]');
+      }
+      if (state.expanded !== undefined) {
+        parts.push(state.expanded ? '[EXPANDED]' : '[COLLAPSED]');
+      }
+    }
+    
+    // Point out elements that are out of reach, need scrolling or are covered by something else
+    if (element.blockedBy) {
+      parts.push(element.blockedBy.dialog
+        ? `[BLOCKED by dialog "${element.blockedBy.dialog.label}"]`
+        : '[INERT]');
+    } else if (element.viewport?.occluded) {
+      parts.push(`[COVERED by \`${element.viewport.occludedBy ?? 'another element'}\`]`);
+    } else if (element.viewport && !element.viewport.inViewport) {
+      parts.push(element.viewport.scrollContainer
+        ? `[off-screen, scrolls in \`${element.viewport.scrollContainer}\`]`
+        : '[off-screen]');
+    }
+    
+    // Say why a field is invalid, preferring the page's own error text
+    if (element.validation && !element.validation.valid) {
+      const reason = element.validation.errorText || element.validation.message;
+      parts.push(reason ? `[INVALID: ${reason}]` : '[INVALID]');
+    }
+    
     // Emphasize disabled state for buttons and interactive elements
     if (!element.enabled) {
       if (element.type === 'button') {
@@ -366,7 +670,7 @@ export class Serializer {
       parts.push(`[${selectType} OPTIONS: ${optionsList}]`);
     }
     
-    parts.push(`→ \`${element.selector}\``);
+    parts.push(`→ \`${element.selector}\` (ref: \`${element.id}\`)`);
     
     return parts.join(' ');
   }
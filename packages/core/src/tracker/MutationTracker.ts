@@ -2,8 +2,10 @@
  * Mutation Tracker - Debounced mutation observer and event tracking
  */
 
-import type { UUICSConfig } from '../types';
+import type { Announcement, AnnouncementSource, UUICSConfig } from '../types';
 import { debounce } from '../utils';
+import { getDeepSelector } from '../utils/deepQuery';
+import { validateSelector } from '../utils/selectorSanitizer';
 
 /**
  * Tracker configuration
@@ -14,12 +16,53 @@ interface TrackerConfig {
   changes: boolean;
   submits: boolean;
   debounceDelay: number;
+  announcements: boolean;
+  toastSelectors: string[];
+  maxAnnouncements: number;
 }
 
 /**
- * Change callback type
+ * Live regions: content changes inside them are announced by screen readers
  */
-type ChangeCallback = (trigger: 'mutation' | 'click' | 'change' | 'submit', target?: HTMLElement) => void;
+const LIVE_REGION_SELECTOR = '[aria-live]:not([aria-live="off"]), [role="alert"], [role="status"], [role="log"]';
+
+/**
+ * Toasts of common component libraries (many render them without a live region)
+ */
+const DEFAULT_TOAST_SELECTORS = [
+  '.toast',
+  '[data-sonner-toast]',
+  '.Toastify__toast',
+  '.MuiSnackbar-root',
+  '.chakra-toast',
+  '.ant-message-notice',
+  '.ant-notification-notice',
+];
+
+/**
+ * Attributes that open a modal or make a subtree inert on any element
+ */
+const REACH_ATTRIBUTES = ['open', 'aria-modal', 'inert'];
+
+/**
+ * The same text from the same region within this window is one announcement (ms)
+ */
+const DUPLICATE_WINDOW = 1000;
+
+/**
+ * Announced texts longer than this are truncated
+ */
+const MAX_ANNOUNCEMENT_LENGTH = 300;
+
+/**
+ * Change callback type.
+ * `affectedRoots` holds the top-most subtrees touched since the last callback.
+ */
+type ChangeCallback = (
+  trigger: 'mutation' | 'click' | 'change' | 'submit',
+  target?: HTMLElement,
+  affectedRoots?: HTMLElement[]
+) => void;
 
 /**
  * Mutation Tracker class
@@ -30,6 +73,9 @@ export class MutationTracker {
   private listeners: Map<string, EventListener> = new Map();
   private changeCallback: ChangeCallback | null = null;
   private debouncedOnChange: ReturnType<typeof debounce> | null = null;
+  private pendingRoots: Set<HTMLElement> = new Set();
+  private announcementObserver: MutationObserver | null = null;
+  private announcements: Announcement[] = [];
   private isActive: boolean = false;
 
   constructor(config?: Partial<UUICSConfig>) {
@@ -39,6 +85,9 @@ export class MutationTracker {
       changes: config?.track?.changes ?? true,
       submits: config?.track?.submits ?? true,
       debounceDelay: config?.track?.debounceDelay ?? 100,
+      announcements: config?.track?.announcements ?? true,
+      toastSelectors: this.validateToastSelectors(config?.track?.toastSelectors ?? []),
+      maxAnnouncements: config?.track?.maxAnnouncements ?? 20,
     };
   }
 
@@ -54,8 +103,9 @@ export class MutationTracker {
     this.changeCallback = callback;
     this.debouncedOnChange = debounce(
       (trigger: 'mutation' | 'click' | 'change' | 'submit', target?: HTMLElement) => {
+        const affectedRoots = this.takeAffectedRoots();
         if (this.changeCallback) {
-          this.changeCallback(trigger, target);
+          this.changeCallback(trigger, target, affectedRoots);
         }
       },
       this.config.debounceDelay
@@ -79,6 +129,10 @@ export class MutationTracker {
       this.setupSubmitListener();
     }
 
+    if (this.config.announcements) {
+      this.setupAnnouncementObserver();
+    }
+
     this.isActive = true;
 
     if (process.env.NODE_ENV !== 'production') {
@@ -100,6 +154,11 @@ export class MutationTracker {
       this.observer = null;
     }
 
+    if (this.announcementObserver) {
+      this.announcementObserver.disconnect();
+      this.announcementObserver = null;
+    }
+
     // Remove event listeners
     this.listeners.forEach((listener, eventType) => {
       document.body.removeEventListener(eventType, listener, true);
@@ -111,6 +170,7 @@ export class MutationTracker {
       this.debouncedOnChange.cancel();
       this.debouncedOnChange = null;
     }
+    this.pendingRoots.clear();
 
     this.changeCallback = null;
     this.isActive = false;
@@ -142,13 +202,19 @@ export class MutationTracker {
 
         if (mutation.type === 'attributes') {
           const target = mutation.target as HTMLElement;
-          return this.isInteractiveElement(target);
+          return this.isInteractiveElement(target) || REACH_ATTRIBUTES.includes(mutation.attributeName ?? '');
         }
 
         return false;
       });
 
       if (relevantMutations.length > 0 && this.debouncedOnChange) {
+        // childList records point at the parent whose children changed,
+        // attribute records at the changed element - either way that subtree needs a rescan
+        for (const mutation of relevantMutations) {
+          this.addAffectedRoot(mutation.target);
+        }
+        
         const firstTarget = relevantMutations[0].target as HTMLElement;
         this.debouncedOnChange('mutation', firstTarget);
       }
@@ -158,7 +224,7 @@ export class MutationTracker {
       childList: true,
       subtree: true,
       attributes: true,
-      attributeFilter: ['value', 'disabled', 'checked', 'selected', 'class', 'style'],
+      attributeFilter: ['value', 'disabled', 'checked', 'selected', 'class', 'style', ...REACH_ATTRIBUTES],
     });
   }
 
@@ -170,6 +236,7 @@ export class MutationTracker {
       const target = event.target as HTMLElement;
       
       if (this.isInteractiveElement(target) && this.debouncedOnChange) {
+        this.addAffectedRoot(target);
         this.debouncedOnChange('click', target);
       }
     };
@@ -186,6 +253,7 @@ export class MutationTracker {
       const target = event.target as HTMLElement;
       
       if (this.isFormControl(target) && this.debouncedOnChange) {
+        this.addAffectedRoot(target);
         this.debouncedOnChange('change', target);
       }
     };
@@ -204,6 +272,7 @@ export class MutationTracker {
       const target = event.target as HTMLElement;
       
       if (target instanceof HTMLFormElement && this.debouncedOnChange) {
+        this.addAffectedRoot(target);
         this.debouncedOnChange('submit', target);
       }
     };
@@ -212,6 +281,144 @@ export class MutationTracker {
     this.listeners.set('submit', listener);
   }
 
+  /**
+   * Setup a mutation observer that records what live regions and toasts announce
+   */
+  private setupAnnouncementObserver(): void {
+    this.announcementObserver = new MutationObserver((mutations) => {
+      this.recordAnnouncements(mutations);
+    });
+
+    this.announcementObserver.observe(document.body, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+  }
+
+  /**
+   * Turn mutation records into announcements: text added to a region
+   * announces the added text, text changed in place announces the region
+   */
+  private recordAnnouncements(mutations: MutationRecord[]): void {
+    const regionSelector = [LIVE_REGION_SELECTOR, ...DEFAULT_TOAST_SELECTORS, ...this.config.toastSelectors].join(', ');
+
+    for (const mutation of mutations) {
+      if (mutation.type === 'characterData') {
+        const region = mutation.target.parentElement?.closest<HTMLElement>(regionSelector);
+        if (region) {
+          this.addAnnouncement(region, region.textContent || '');
+        }
+        continue;
+      }
+
+      for (const node of Array.from(mutation.addedNodes)) {
+        const parent = node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node.parentElement;
+        const region = parent?.closest<HTMLElement>(regionSelector);
+
+        if (region) {
+          this.addAnnouncement(region, node.textContent || '');
+        } else if (node instanceof HTMLElement) {
+          // A container inserted together with the regions inside it
+          for (const inner of Array.from(node.querySelectorAll<HTMLElement>(regionSelector))) {
+            if (inner.parentElement?.closest(regionSelector)) continue;
+            this.addAnnouncement(inner, inner.textContent || '');
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Add an announcement to the ring buffer
+   */
+  private addAnnouncement(region: HTMLElement, rawText: string): void {
+    let text = rawText.replace(/\s+/g, ' ').trim();
+    if (!text || region.closest('[aria-hidden="true"]')) return;
+
+    if (text.length > MAX_ANNOUNCEMENT_LENGTH) {
+      text = `${text.substring(0, MAX_ANNOUNCEMENT_LENGTH)}…`;
+    }
+
+    const now = Date.now();
+    const selector = getDeepSelector(region);
+    const last = this.announcements[this.announcements.length - 1];
+    if (last && last.text === text && last.selector === selector && now - last.timestamp < DUPLICATE_WINDOW) {
+      return;
+    }
+
+    const { source, politeness } = this.classifyRegion(region);
+    this.announcements.push({ text, source, politeness, selector, timestamp: now });
+
+    if (this.announcements.length > this.config.maxAnnouncements) {
+      this.announcements.splice(0, this.announcements.length - this.config.maxAnnouncements);
+    }
+  }
+
+  /**
+   * Get the kind and politeness of an announcing region
+   */
+  private classifyRegion(region: HTMLElement): { source: AnnouncementSource; politeness: 'polite' | 'assertive' } {
+    const role = region.getAttribute('role');
+    const live = region.getAttribute('aria-live');
+
+    let source: AnnouncementSource = 'live';
+    if (role === 'alert') {
+      source = 'alert';
+    } else if (role === 'status') {
+      source = 'status';
+    } else if (!live) {
+      source = 'toast';
+    }
+
+    const politeness = live === 'assertive' || (!live && role === 'alert') ? 'assertive' : 'polite';
+    return { source, politeness };
+  }
+
+  /**
+   * Get the recent announcements, oldest first, optionally only those made
+   * at or after a timestamp. Pending mutation records are processed first.
+   */
+  getAnnouncements(since?: number): Announcement[] {
+    if (this.announcementObserver) {
+      this.recordAnnouncements(this.announcementObserver.takeRecords());
+    }
+
+    return since === undefined
+      ? [...this.announcements]
+      : this.announcements.filter(announcement => announcement.timestamp >= since);
+  }
+
+  /**
+   * Forget all recorded announcements
+   */
+  clearAnnouncements(): void {
+    this.announcements = [];
+  }
+
+  /**
+   * Record a subtree that needs rescanning
+   */
+  private addAffectedRoot(node: Node): void {
+    const element = node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node.parentElement;
+    if (element) {
+      this.pendingRoots.add(element);
+    }
+  }
+
+  /**
+   * Take the pending subtrees, dropping disconnected ones and
+   * subtrees already covered by another pending root
+   */
+  private takeAffectedRoots(): HTMLElement[] {
+    const roots = Array.from(this.pendingRoots).filter(root => root.isConnected);
+    this.pendingRoots.clear();
+    
+    return roots.filter(root => 
+      !roots.some(other => other !== root && other.contains(root))
+    );
+  }
+
   /**
    * Check if element is interactive
    */
@@ -263,6 +470,9 @@ export class MutationTracker {
     }
 
     this.config = { ...this.config, ...config };
+    if (config.toastSelectors) {
+      this.config.toastSelectors = this.validateToastSelectors(config.toastSelectors);
+    }
 
     if (wasActive && callback) {
       this.start(callback);
@@ -275,5 +485,22 @@ export class MutationTracker {
   get active(): boolean {
     return this.isActive;
   }
+
+  /**
+   * Drop toast selectors that are not valid CSS (they are matched inside the
+   * mutation observer, where one bad selector would stop all announcements)
+   */
+  private validateToastSelectors(selectors: string[]): string[] {
+    return selectors.filter(selector => {
+      const validation = selector.includes('>>>')
+        ? { valid: false, error: 'Deep selectors cannot match toasts' }
+        : validateSelector(selector);
+
+      if (!validation.valid) {
+        console.warn(`[UUICS Tracker] Ignoring toast selector "${selector}": ${validation.error}`);
+      }
+      return validation.valid;
+    });
+  }
 }
 
@@ -19,7 +19,18 @@ export type ElementType =
   | 'select'
   | 'checkbox'
   | 'radio'
+  | 'radiogroup'
+  | 'checkboxgroup'
   | 'link'
+  | 'switch'
+  | 'slider'
+  | 'tab'
+  | 'menu'
+  | 'menuitem'
+  | 'dialog'
+  | 'grid'
+  | 'tree'
+  | 'treeitem'
   | 'form'
   | 'container'
   | 'text'
@@ -65,11 +76,163 @@ export interface SelectMetadata {
   size?: number;
 }
 
+/**
+ * Widget state read from native properties and ARIA state attributes.
+ * Only the fields that apply to an element are present.
+ */
+export interface ElementState {
+  /** Checked state (checkboxes, switches, checkable menu items) */
+  checked?: boolean | 'mixed';
+  
+  /** Selected state (tabs, options, tree items, grid cells) */
+  selected?: boolean;
+  
+  /** Expanded state (disclosures, tree items, menu buttons, comboboxes) */
+  expanded?: boolean;
+  
+  /** Pressed state (toggle buttons) */
+  pressed?: boolean | 'mixed';
+  
+  /** Current value (sliders) */
+  valueNow?: number;
+  
+  /** Minimum value (sliders) */
+  valueMin?: number;
+  
+  /** Maximum value (sliders) */
+  valueMax?: number;
+  
+  /** Human-readable value (aria-valuetext) */
+  valueText?: string;
+  
+  /** Orientation (sliders, menus, tab lists) */
+  orientation?: 'horizontal' | 'vertical';
+  
+  /** Whether a dialog is open */
+  open?: boolean;
+  
+  /** Whether a dialog is modal */
+  modal?: boolean;
+  
+  /** Hierarchical level (tree items) */
+  level?: number;
+  
+  /** Whether several items can be selected (grids, trees, menus) */
+  multiselectable?: boolean;
+}
+
+/**
+ * Validation state of a form field
+ */
+export interface FieldValidation {
+  /** Whether the field passes native constraints and is not marked aria-invalid */
+  valid: boolean;
+  
+  /** Failed native constraints (ValidityState flags, e.g. 'valueMissing', 'typeMismatch') */
+  failed?: string[];
+  
+  /** Browser validation message (including setCustomValidity messages) */
+  message?: string;
+  
+  /** Error text the page renders for an aria-invalid field (aria-errormessage/aria-describedby) */
+  errorText?: string;
+}
+
+/**
+ * Where an element sits relative to the visible viewport
+ */
+export interface ElementViewport {
+  /** Whether part of the element is inside the viewport and not clipped by an overflow ancestor */
+  inViewport: boolean;
+  
+  /** Whether another element covers the center of the element's visible part */
+  occluded: boolean;
+  
+  /** Selector of the element found on top when occluded */
+  occludedBy?: string;
+  
+  /** Selector of the nearest scrollable ancestor (absent when only the document scrolls) */
+  scrollContainer?: string;
+}
+
+/**
+ * The modal dialog that blocks the rest of the page
+ */
+export interface BlockingDialog {
+  /** Element ref of the dialog */
+  ref: string;
+  
+  /** Dialog selector */
+  selector: string;
+  
+  /** Accessible name of the dialog ('Dialog' when unnamed) */
+  label: string;
+}
+
+/**
+ * Why an element cannot be reached
+ */
+export interface ElementBlocker {
+  /** 'modal': outside the open modal dialog; 'inert': inside an inert subtree */
+  reason: 'modal' | 'inert';
+  
+  /** The blocking dialog (modal only) */
+  dialog?: BlockingDialog;
+}
+
+/**
+ * How a locator finds an element
+ */
+export type LocatorStrategy = 'testid' | 'role' | 'label' | 'text' | 'css' | 'xpath';
+
+/**
+ * One way of finding an element again
+ */
+export interface Locator {
+  /** Locator strategy */
+  strategy: LocatorStrategy;
+  
+  /** Test id, role, label text, visible text, CSS selector or XPath */
+  value: string;
+  
+  /** Accessible name (role locators) */
+  name?: string;
+  
+  /** Test id attribute, e.g. 'data-testid' (test id locators) */
+  attribute?: string;
+  
+  /** How likely the locator is to survive page changes, from 0 to 1 */
+  score: number;
+}
+
+/**
+ * What an element is recognized by after the page re-rendered it
+ */
+export interface ElementFingerprint {
+  /** Tag name */
+  tag: string;
+  
+  /** ARIA role */
+  role?: string;
+  
+  /** Accessible name */
+  name: string;
+  
+  /** Closest text before the element (e.g. the product name next to a "Delete" button) */
+  nearbyText?: string;
+  
+  /** Label of the innermost enclosing section */
+  section?: string;
+  
+  /** Position among the parent's children with the same tag */
+  index: number;
+}
+
 /**
  * Represents a single UI element in the DOM
  */
 export interface UIElement {
-  /** Unique identifier for the element */
+  /** Stable element ref (e.g. 'e42'), kept for the same DOM node across scans */
   id: string;
   
   /** Element type classification */
@@ -78,12 +241,27 @@ export interface UIElement {
   /** HTML tag name (e.g., 'button', 'input') */
   tag: string;
   
-  /** CSS selector to uniquely identify this element */
+  /** CSS selector to uniquely identify this element (frame/shadow-qualified when needed) */
   selector: string;
   
-  /** Human-readable label or description */
+  /** Selector of the same-origin iframe containing this element (absent for the top document) */
+  frame?: string;
+  
+  /** Accessible name (W3C AccName), as announced by a screen reader */
   label: string;
   
+  /** Computed ARIA role (explicit role attribute or implicit HTML role) */
+  role?: string;
+  
+  /** Accessible description (aria-describedby, aria-description or title) */
+  description?: string;
+  
+  /** Enclosing landmarks, headings, fieldsets and dialogs plus the element's label (e.g. 'Billing › Address › City') */
+  sectionPath?: string;
+  
+  /** Other ways to find the element again, most stable first */
+  locators?: Locator[];
+  
   /** Relevant HTML attributes */
   attributes: Record<string, string | boolean | number>;
   
@@ -99,7 +277,25 @@ export interface UIElement {
   /** Whether the element is enabled/disabled */
   enabled: boolean;
   
-  /** Child elements (for containers) */
+  /** Widget state (checked, selected, expanded, slider values, ...) */
+  state?: ElementState;
+  
+  /** Viewport position, occlusion and scroll container (visible elements only) */
+  viewport?: ElementViewport;
+  
+  /** Set when an open modal dialog or an inert ancestor puts the element out of reach */
+  blockedBy?: ElementBlocker;
+  
+  /** Validation state (form fields and aria-invalid elements) */
+  validation?: FieldValidation;
+  
+  /** Name of the recognizer that classified this element (component library adapters) */
+  recognizer?: string;
+  
+  /** Component-specific actions offered by the recognizer */
+  customActions?: CustomActionInfo[];
+  
+  /** Child elements (for containers, and for section elements in tree mode) */
   children?: UIElement[];
   
   /** Options for select elements */
@@ -122,6 +318,8 @@ export interface UIElement {
     hash?: string;
     /** Last update timestamp */
     lastUpdated?: number;
+    /** What the element is recognized by when its ref and locators no longer match */
+    fingerprint?: ElementFingerprint;
     /** Additional metadata (e.g., options for select) */
     [key: string]: unknown;
   };
@@ -153,9 +351,24 @@ export interface PageContext {
   /** Available actions that can be performed */
   actions: Action[];
   
+  /** Elements nested under their landmarks, headings, fieldsets and dialogs (tree mode only) */
+  tree?: UIElement[];
+  
+  /** Open modal dialog that blocks everything outside it (if any) */
+  blockingDialog?: BlockingDialog;
+  
   /** Current form states (if any) */
   forms?: FormState[];
   
+  /** Data tables and grids shown on the page (if any) */
+  tables?: TableData[];
+  
+  /** Readable, non-interactive page content (if extracted) */
+  content?: PageContent;
+  
+  /** Recent live region, alert and toast announcements, oldest first */
+  announcements?: Announcement[];
+  
   /** Page metadata */
   metadata: {
     /** Total number of elements scanned */
@@ -172,6 +385,31 @@ export interface PageContext {
   state?: Record<string, any>;
 }
 
+/**
+ * Where an announcement came from
+ */
+export type AnnouncementSource = 'alert' | 'status' | 'live' | 'toast';
+
+/**
+ * A message announced by a live region, alert, status or toast
+ */
+export interface Announcement {
+  /** Announced text */
+  text: string;
+  
+  /** Region kind */
+  source: AnnouncementSource;
+  
+  /** How urgently a screen reader would announce it */
+  politeness: 'polite' | 'assertive';
+  
+  /** Selector of the announcing region */
+  selector: string;
+  
+  /** Time of the announcement (ms since epoch) */
+  timestamp: number;
+}
+
 /**
  * Represents the state of a form
  */
@@ -182,8 +420,8 @@ export interface FormState {
   /** Form selector */
   selector: string;
   
-  /** Form fields and their values */
-  fields: Record<string, unknown>;
+  /** Form fields keyed by name (or id, or element ref for unnamed fields) */
+  fields: Record<string, FormField>;
   
   /** Whether the form is valid */
   valid: boolean;
@@ -192,6 +430,147 @@ export interface FormState {
   errors?: Record<string, string>;
 }
 
+/**
+ * A field of a form
+ */
+export interface FormField {
+  /** Field name (the key in FormState.fields) */
+  name: string;
+  
+  /** Accessible name (the group label for radio and checkbox groups) */
+  label: string;
+  
+  /** Input type ('text', 'email', 'checkbox', 'radio', ...), 'select' or 'textarea' */
+  type: string;
+  
+  /** Current value: checked state of a single checkbox, checked values of a checkbox group, checked radio value */
+  value: unknown;
+  
+  /** Whether the field is required */
+  required: boolean;
+  
+  /** Whether the field is valid */
+  valid: boolean;
+  
+  /** Validation error (if invalid) */
+  error?: string;
+  
+  /** Element ref of the field (the first control of a group), usable as an action target */
+  target: string;
+}
+
+/**
+ * Data extracted from a table or data grid
+ */
+export interface TableData {
+  /** Element ref of the table */
+  id: string;
+  
+  /** Table selector */
+  selector: string;
+  
+  /** Caption or accessible name (if any) */
+  caption?: string;
+  
+  /** Column headers (generated as 'Column N' when the table has none) */
+  headers: string[];
+  
+  /** Extracted rows */
+  rows: TableRow[];
+  
+  /** Total number of data rows (aria-rowcount for virtualized grids) */
+  rowCount: number;
+  
+  /** Whether rows were left out because of row limits */
+  truncated: boolean;
+}
+
+/**
+ * A data row of a table
+ */
+export interface TableRow {
+  /** Row index among the data rows (0-based) */
+  index: number;
+  
+  /** Cell texts, aligned with TableData.headers */
+  cells: string[];
+  
+  /** Interactive elements in the row (e.g. its "Edit" button) */
+  actions?: TableRowAction[];
+}
+
+/**
+ * An interactive element inside a table row
+ */
+export interface TableRowAction {
+  /** Accessible name of the element */
+  label: string;
+  
+  /** Element ref, usable as an action target */
+  target: string;
+  
+  /** Element role (button, link, checkbox, ...) */
+  role?: string;
+}
+
+/**
+ * Readable, non-interactive content of a page: what the page says
+ */
+export interface PageContent {
+  /** Page outline: visible headings in document order */
+  headings: ContentHeading[];
+  
+  /** Text blocks of the main content in document order */
+  blocks: ContentBlock[];
+  
+  /** Key-value pairs from definition lists and "Label: value" rows */
+  pairs: ContentPair[];
+  
+  /** Whether content was left out because of the length budget */
+  truncated: boolean;
+}
+
+/**
+ * A heading of the page outline
+ */
+export interface ContentHeading {
+  /** Heading level (1-6) */
+  level: number;
+  
+  /** Heading text */
+  text: string;
+}
+
+/**
+ * Kind of a content block
+ */
+export type ContentBlockKind = 'heading' | 'text' | 'list' | 'quote' | 'code' | 'status';
+
+/**
+ * A block of readable text
+ */
+export interface ContentBlock {
+  /** Block kind */
+  kind: ContentBlockKind;
+  
+  /** Block text, whitespace-collapsed */
+  text: string;
+  
+  /** Heading level (heading blocks only) */
+  level?: number;
+}
+
+/**
+ * A labelled value, e.g. "Total: $42.00"
+ */
+export interface ContentPair {
+  /** Label, without the trailing colon */
+  key: string;
+  
+  /** Value text */
+  value: string;
+}
+
 // ============================================================================
 // ACTION TYPES
 // ============================================================================
@@ -209,6 +588,11 @@ export type ActionType =
   | 'focus'
   | 'scroll'
   | 'hover'
+  | 'expand'
+  | 'collapse'
+  | 'press'
+  | 'drag'
+  | 'upload'
   | 'custom';
 
 /**
@@ -227,11 +611,20 @@ export interface Action {
   /** Target element selector */
   target: string;
   
+  /** Stable ref of the target element (usable in place of the selector) */
+  ref?: string;
+  
   /** Parameter schema for this action */
   parameters?: ActionParameters;
   
   /** Whether this action is currently available */
   available: boolean;
+  
+  /** Why the action is unavailable (e.g. the target is covered by another element) */
+  unavailableReason?: string;
+  
+  /** Recognizer action name (custom actions only), passed as parameters.name */
+  name?: string;
 }
 
 /**
@@ -254,7 +647,7 @@ export interface ActionCommand {
   /** Action ID or type */
   action: string;
   
-  /** Target element selector */
+  /** Target element selector or element ref (e.g. 'e42'); may be empty for 'press' (the focused element) */
   target: string;
   
   /** Action parameters */
@@ -264,6 +657,23 @@ export interface ActionCommand {
   script?: string;
 }
 
+/**
+ * A file for the upload action (parameters.files), built in the page as a File
+ */
+export interface UploadFile {
+  /** File name, e.g. 'report.pdf' */
+  name: string;
+  
+  /** File content: plain text, or base64 when encoding is 'base64' */
+  content: string;
+  
+  /** How content is encoded (default: 'text') */
+  encoding?: 'text' | 'base64';
+  
+  /** MIME type (default: guessed from the extension) */
+  mimeType?: string;
+}
+
 /**
  * Result of an action execution
  */
@@ -282,6 +692,103 @@ export interface ActionResult {
   
   /** Updated context after action (optional) */
   context?: PageContext;
+  
+  /** Announcements (toasts, alerts, status messages) raised while the action ran */
+  announcements?: Announcement[];
+  
+  /** Set when the target no longer matched and the element was found again another way */
+  healed?: HealedTarget;
+}
+
+/**
+ * How an action target that no longer matched was found again
+ */
+export interface HealedTarget {
+  /** The ref or selector of the command */
+  original: string;
+  
+  /** What found the element: one of its locators, or its fingerprint */
+  strategy: LocatorStrategy | 'fingerprint';
+  
+  /** Ref of the element acted on */
+  ref: string;
+  
+  /** Selector of the element acted on */
+  selector: string;
+  
+  /** Label of the element acted on */
+  label: string;
+  
+  /** Confidence in the match, from 0 to 1 */
+  confidence: number;
+}
+
+// ============================================================================
+// RECOGNIZER TYPES
+// ============================================================================
+
+/**
+ * Describes a component-specific action (serializable part of a RecognizerAction)
+ */
+export interface CustomActionInfo {
+  /** Action name, unique per recognizer (e.g. 'selectOption') */
+  name: string;
+  
+  /** Human-readable description */
+  description: string;
+  
+  /** Parameter schema for this action */
+  parameters?: ActionParameters;
+}
+
+/**
+ * A component-specific action and its implementation
+ */
+export interface RecognizerAction extends CustomActionInfo {
+  /** Perform the action on the recognized element */
+  execute: (
+    element: HTMLElement,
+    parameters: Record<string, unknown>
+  ) => ActionResult | Promise<ActionResult>;
+}
+
+/**
+ * What a recognizer found out about an element. Omitted fields fall back
+ * to the scanner's generic detection.
+ */
+export interface RecognizedElement {
+  /** Element type classification */
+  type?: ElementType;
+  
+  /** Human-readable label */
+  label?: string;
+  
+  /** Current value */
+  value?: UIElement['value'];
+  
+  /** Available options (for select-like components) */
+  options?: SelectOption[];
+  
+  /** Extra attributes merged into UIElement.attributes */
+  attributes?: Record<string, string | boolean | number>;
+  
+  /** Component-specific actions */
+  actions?: RecognizerAction[];
+}
+
+/**
+ * Recognizes a component library pattern (e.g. MUI Autocomplete,
+ * Radix Select) that generic DOM inspection cannot describe well
+ */
+export interface ElementRecognizer {
+  /** Unique recognizer name (e.g. 'radix-select') */
+  name: string;
+  
+  /** Optional CSS selector an element must match before recognize() is called */
+  selector?: string;
+  
+  /** Describe the element, or return null when it is not this recognizer's pattern */
+  recognize: (element: HTMLElement) => RecognizedElement | null;
 }
 
 // ============================================================================
@@ -355,6 +862,24 @@ export interface UUICSConfig {
     
     /** Use idle callback for scanning */
     useIdleCallback?: boolean;
+    
+    /** Descend into same-origin iframes (default: true) */
+    frames?: boolean;
+    
+    /** Rescan only the subtrees reported by the mutation tracker (default: true) */
+    incremental?: boolean;
+    
+    /** Also build PageContext.tree, nesting elements under their sections (default: false) */
+    tree?: boolean;
+    
+    /** Compute viewport, occlusion and scroll container info per element (default: true) */
+    viewport?: boolean;
+    
+    /** Recognizers for component library patterns, tried before built-in ones */
+    recognizers?: ElementRecognizer[];
+    
+    /** Enable the built-in recognizers (Radix Select, MUI Autocomplete) (default: true) */
+    builtInRecognizers?: boolean;
   };
   
   /** Tracking configuration */
@@ -373,6 +898,15 @@ export interface UUICSConfig {
     
     /** Debounce delay for events (ms) */
     debounceDelay?: number;
+    
+    /** Capture live region, alert, status and toast announcements (default: true) */
+    announcements?: boolean;
+    
+    /** Extra selectors of toast elements, added to the built-in ones */
+    toastSelectors?: string[];
+    
+    /** Number of recent announcements kept (default: 20) */
+    maxAnnouncements?: number;
   };
   
   /** Serialization configuration */
@@ -388,6 +922,27 @@ export interface UUICSConfig {
     
     /** Include element bounds */
     includeBounds?: boolean;
+    
+    /** Maximum table rows rendered per table (default: 20) */
+    maxTableRows?: number;
+  };
+  
+  /** Content extraction configuration */
+  extract?: {
+    /** Extract tables and data grids into PageContext.tables (default: true) */
+    tables?: boolean;
+    
+    /** Maximum number of tables to extract (default: 10) */
+    maxTables?: number;
+    
+    /** Maximum rows extracted per table (default: 100) */
+    maxTableRows?: number;
+    
+    /** Extract readable page content into PageContext.content (default: true) */
+    content?: boolean;
+    
+    /** Maximum characters of extracted content (default: 4000) */
+    maxContentLength?: number;
   };
   
   /** Performance configuration */
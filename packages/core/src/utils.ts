@@ -67,13 +67,33 @@ export function generateId(prefix = 'uuics'): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Realm-safe instanceof check.
+ *
+ * Elements inside same-origin iframes are created by the frame's own
+ * constructors, so `el instanceof HTMLInputElement` is false for them.
+ * This also checks against the constructor of the element's own window.
+ */
+export function isInstanceOf<T>(
+  value: unknown,
+  ctor: { new (...args: any[]): T; prototype: T }
+): value is T {
+  if (value instanceof ctor) return true;
+  
+  const view = (value as Node | null)?.ownerDocument?.defaultView as unknown as Record<string, unknown> | null | undefined;
+  const frameCtor = view?.[ctor.name] as typeof ctor | undefined;
+  
+  return typeof frameCtor === 'function' && frameCtor !== ctor && value instanceof frameCtor;
+}
+
 /**
  * Check if an element is visible
  */
 export function isElementVisible(element: HTMLElement): boolean {
   if (!element) return false;
   
-  const style = window.getComputedStyle(element);
+  const view = element.ownerDocument.defaultView ?? window;
+  const style = view.getComputedStyle(element);
   
   if (style.display === 'none') return false;
   if (style.visibility === 'hidden') return false;
@@ -87,9 +107,16 @@ export function isElementVisible(element: HTMLElement): boolean {
 
 /**
  * Get a unique CSS selector for an element (optimized for brevity)
+ *
+ * Uniqueness is checked within the element's own root (the document or
+ * the shadow root that contains it).
  */
 export function getElementSelector(element: HTMLElement): string {
   const tag = element.tagName.toLowerCase();
+  const root = element.getRootNode();
+  const scope: ParentNode = root.nodeType === Node.DOCUMENT_NODE || root.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+    ? root as Document | ShadowRoot
+    : document;
   
   // 1. If element has an ID, use it
   if (element.id) {
@@ -101,7 +128,7 @@ export function getElementSelector(element: HTMLElement): string {
     const name = element.getAttribute('name')!;
     const selector = `${tag}[name="${CSS.escape(name)}"]`;
     // Verify it's unique
-    if (document.querySelectorAll(selector).length === 1) {
+    if (scope.querySelectorAll(selector).length === 1) {
       return selector;
     }
   }
@@ -110,7 +137,7 @@ export function getElementSelector(element: HTMLElement): string {
   const ariaLabel = element.getAttribute('aria-label');
   if (ariaLabel) {
     const selector = `${tag}[aria-label="${CSS.escape(ariaLabel)}"]`;
-    if (document.querySelectorAll(selector).length === 1) {
+    if (scope.querySelectorAll(selector).length === 1) {
       return selector;
     }
   }
@@ -119,7 +146,7 @@ export function getElementSelector(element: HTMLElement): string {
   const title = element.getAttribute('title');
   if (title) {
     const selector = `${tag}[title="${CSS.escape(title)}"]`;
-    if (document.querySelectorAll(selector).length === 1) {
+    if (scope.querySelectorAll(selector).length === 1) {
       return selector;
     }
   }
@@ -139,7 +166,7 @@ export function getElementSelector(element: HTMLElement): string {
         continue;
       }
       const selector = `${tag}.${CSS.escape(cls)}`;
-      const matches = document.querySelectorAll(selector);
+      const matches = scope.querySelectorAll(selector);
       if (matches.length === 1) {
         return selector;
       }
@@ -150,7 +177,7 @@ export function getElementSelector(element: HTMLElement): string {
   const dataTestId = element.getAttribute('data-testid');
   if (dataTestId) {
     const selector = `[data-testid="${CSS.escape(dataTestId)}"]`;
-    if (document.querySelectorAll(selector).length === 1) {
+    if (scope.querySelectorAll(selector).length === 1) {
       return selector;
     }
   }
@@ -161,7 +188,7 @@ export function getElementSelector(element: HTMLElement): string {
   );
   for (const attr of dataAttrs) {
     const selector = `${tag}[${attr.name}="${CSS.escape(attr.value)}"]`;
-    if (document.querySelectorAll(selector).length === 1) {
+    if (scope.querySelectorAll(selector).length === 1) {
       return selector;
     }
   }
@@ -170,7 +197,7 @@ export function getElementSelector(element: HTMLElement): string {
   const role = element.getAttribute('role');
   if (role && role !== 'generic' && role !== 'presentation') {
     const selector = `${tag}[role="${role}"]`;
-    if (document.querySelectorAll(selector).length === 1) {
+    if (scope.querySelectorAll(selector).length === 1) {
       return selector;
     }
   }
@@ -181,7 +208,7 @@ export function getElementSelector(element: HTMLElement): string {
   let depth = 0;
   const maxDepth = 5; // Limit path length
   
-  while (current && current !== document.body && depth < maxDepth) {
+  while (current && current !== element.ownerDocument.body && depth < maxDepth) {
     let selector = current.tagName.toLowerCase();
     
     // Add ID if present (stop here, we have a good anchor)
@@ -222,7 +249,7 @@ export function getElementSelector(element: HTMLElement): string {
     if (unique) {
       // Test if current path is unique
       const testSelector = path.join(' > ');
-      if (document.querySelectorAll(testSelector).length === 1) {
+      if (scope.querySelectorAll(testSelector).length === 1) {
         break;
       }
     }
@@ -0,0 +1,507 @@
+/**
+ * Accessibility - Accessible name, description and role computation
+ *
+ * Implements the W3C Accessible Name and Description Computation (AccName 1.2)
+ * together with the HTML-AAM implicit role and native text alternative rules,
+ * so that elements are described with the same names a screen reader announces.
+ */
+
+import { isInstanceOf } from '../utils';
+import { isShadowRoot } from './deepQuery';
+
+/**
+ * All roles defined by WAI-ARIA 1.2
+ */
+const ARIA_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button',
+  'caption', 'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'complementary',
+  'contentinfo', 'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis',
+  'feed', 'figure', 'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img',
+  'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee', 'math',
+  'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation',
+  'none', 'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup',
+  'region', 'row', 'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator',
+  'slider', 'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab',
+  'table', 'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip',
+  'tree', 'treegrid', 'treeitem',
+]);
+
+/**
+ * Roles whose name is computed from their content (AccName step 2F)
+ */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch',
+  'tab', 'tooltip', 'treeitem',
+]);
+
+/**
+ * Roles that take their value from a range (AccName step 2C)
+ */
+const RANGE_ROLES = new Set(['slider', 'spinbutton', 'progressbar', 'scrollbar', 'meter']);
+
+/**
+ * Sectioning elements that scope header/footer landmarks
+ */
+const SECTIONING_TAGS = ['article', 'aside', 'main', 'nav', 'section'];
+
+/**
+ * Implicit roles of input elements by type (HTML-AAM)
+ */
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  image: 'button',
+  reset: 'button',
+  submit: 'button',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  range: 'slider',
+  number: 'spinbutton',
+  search: 'searchbox',
+  email: 'textbox',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox',
+  password: 'textbox',
+};
+
+/**
+ * Traversal state for the text alternative computation
+ */
+interface TraversalState {
+  /** Nodes already visited (prevents loops through aria-labelledby) */
+  visited: Set<Node>;
+  /** Inside an aria-labelledby/aria-describedby traversal */
+  inReference: boolean;
+  /** The directly referenced node was hidden, so hidden descendants count */
+  includeHidden: boolean;
+}
+
+/**
+ * Get the computed ARIA role of an element (explicit role first, then implicit)
+ */
+export function getElementRole(element: Element): string | null {
+  const explicit = (element.getAttribute('role') || '')
+    .split(/\s+/)
+    .map(token => token.toLowerCase())
+    .find(token => ARIA_ROLES.has(token));
+
+  if (explicit) {
+    return explicit;
+  }
+
+  return getImplicitRole(element);
+}
+
+/**
+ * Get the implicit role of an element from its tag (HTML-AAM)
+ */
+function getImplicitRole(element: Element): string | null {
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') ? 'link' : null;
+    case 'article': return 'article';
+    case 'aside': return 'complementary';
+    case 'blockquote': return 'blockquote';
+    case 'button': return 'button';
+    case 'caption': return 'caption';
+    case 'code': return 'code';
+    case 'datalist': return 'listbox';
+    case 'dd': return 'definition';
+    case 'del': return 'deletion';
+    case 'details': return 'group';
+    case 'dfn': return 'term';
+    case 'dialog': return 'dialog';
+    case 'dt': return 'term';
+    case 'em': return 'emphasis';
+    case 'fieldset': return 'group';
+    case 'figure': return 'figure';
+    case 'form': return 'form';
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return 'heading';
+    case 'header':
+    case 'footer':
+      if (element.parentElement?.closest(SECTIONING_TAGS.join(','))) return null;
+      return tag === 'header' ? 'banner' : 'contentinfo';
+    case 'hr': return 'separator';
+    case 'img':
+      return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+    case 'input': {
+      const type = (element.getAttribute('type') || 'text').toLowerCase();
+      if (element.hasAttribute('list') && ['text', 'search', 'email', 'tel', 'url'].includes(type)) {
+        return 'combobox';
+      }
+      return INPUT_ROLES[type] ?? null;
+    }
+    case 'ins': return 'insertion';
+    case 'li': return 'listitem';
+    case 'main': return 'main';
+    case 'math': return 'math';
+    case 'menu':
+    case 'ol':
+    case 'ul':
+      return 'list';
+    case 'meter': return 'meter';
+    case 'nav': return 'navigation';
+    case 'optgroup': return 'group';
+    case 'option': return 'option';
+    case 'output': return 'status';
+    case 'p': return 'paragraph';
+    case 'progress': return 'progressbar';
+    case 'search': return 'search';
+    case 'section':
+      return hasExplicitName(element) ? 'region' : null;
+    case 'select': {
+      const select = element as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+    }
+    case 'strong': return 'strong';
+    case 'sub': return 'subscript';
+    case 'summary': return 'button';
+    case 'sup': return 'superscript';
+    case 'table': return 'table';
+    case 'tbody':
+    case 'tfoot':
+    case 'thead':
+      return 'rowgroup';
+    case 'td':
+      return element.closest('table')?.getAttribute('role') === 'grid' ? 'gridcell' : 'cell';
+    case 'textarea': return 'textbox';
+    case 'th':
+      return element.getAttribute('scope') === 'row' ? 'rowheader' : 'columnheader';
+    case 'time': return 'time';
+    case 'tr': return 'row';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether an element is named by an author attribute
+ */
+function hasExplicitName(element: Element): boolean {
+  return !!(element.getAttribute('aria-label')?.trim() || element.getAttribute('aria-labelledby')?.trim());
+}
+
+/**
+ * Compute the accessible name of an element
+ */
+export function computeAccessibleName(element: Element): string {
+  const state: TraversalState = {
+    visited: new Set(),
+    inReference: false,
+    includeHidden: false,
+  };
+
+  return normalize(computeTextAlternative(element, state, true));
+}
+
+/**
+ * Compute the accessible description of an element
+ */
+export function computeAccessibleDescription(element: Element): string {
+  const describedBy = resolveIdRefs(element, 'aria-describedby');
+
+  if (describedBy.length > 0) {
+    const description = describedBy
+      .map(target => computeTextAlternative(target, {
+        visited: new Set([element]),
+        inReference: true,
+        includeHidden: isHidden(target),
+      }, false))
+      .join(' ');
+
+    return normalize(description);
+  }
+
+  const ariaDescription = element.getAttribute('aria-description');
+  if (ariaDescription?.trim()) {
+    return normalize(ariaDescription);
+  }
+
+  // A title only describes the element when it was not already used as its name
+  const title = element.getAttribute('title');
+  if (title?.trim() && normalize(title) !== computeAccessibleName(element)) {
+    return normalize(title);
+  }
+
+  return '';
+}
+
+/**
+ * Check whether an element is excluded from the accessibility tree
+ */
+export function isHidden(element: Element): boolean {
+  return !!element.closest('[aria-hidden="true"]') || isSelfHidden(element);
+}
+
+/**
+ * Check whether an element hides itself (aria-hidden or not rendered)
+ */
+function isSelfHidden(element: Element): boolean {
+  if (element.getAttribute('aria-hidden') === 'true') {
+    return true;
+  }
+
+  const view = element.ownerDocument.defaultView ?? window;
+  const style = view.getComputedStyle(element);
+  return style.display === 'none' || style.visibility === 'hidden' || style.visibility === 'collapse';
+}
+
+/**
+ * AccName step 2: text alternative of a single node
+ */
+function computeTextAlternative(node: Node, state: TraversalState, isRoot: boolean): string {
+  if (state.visited.has(node)) {
+    return '';
+  }
+  state.visited.add(node);
+
+  // 2G: text nodes contribute their text
+  if (node.nodeType === Node.TEXT_NODE) {
+    return node.textContent || '';
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const role = getElementRole(element);
+
+  // 2A: hidden descendants are skipped unless reached through a reference to a hidden node
+  // (ancestors were already checked on the way down, so only the node itself is tested)
+  if (!isRoot && !state.includeHidden && isSelfHidden(element)) {
+    return '';
+  }
+
+  // 2B: aria-labelledby (not followed again inside a labelledby traversal)
+  if (!state.inReference) {
+    const labelledBy = resolveIdRefs(element, 'aria-labelledby');
+    if (labelledBy.length > 0) {
+      const text = labelledBy
+        .map(target => computeTextAlternative(target, {
+          visited: state.visited,
+          inReference: true,
+          includeHidden: isHidden(target),
+        }, false))
+        .join(' ');
+
+      if (text.trim()) return text;
+    }
+  }
+
+  // 2C: controls embedded in the label of another element contribute their value
+  if (!isRoot) {
+    const embedded = getEmbeddedControlValue(element, role);
+    if (embedded !== null) return embedded;
+  }
+
+  // 2D: aria-label
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel?.trim() && role !== 'none' && role !== 'presentation') {
+    return ariaLabel;
+  }
+
+  // 2E: native host language text alternatives
+  if (role !== 'none' && role !== 'presentation') {
+    const native = getNativeTextAlternative(element, state);
+    if (native.trim()) return native;
+  }
+
+  // 2F: name from content
+  if (!isRoot || state.inReference || (role !== null && NAME_FROM_CONTENT_ROLES.has(role))) {
+    const content = getTextFromContent(element, state);
+    if (content.trim()) return content;
+  }
+
+  // 2I: tooltip attribute, then placeholder for text fields (HTML-AAM)
+  const title = element.getAttribute('title');
+  if (title?.trim()) return title;
+
+  if (isRoot && (isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLTextAreaElement))) {
+    const placeholder = element.getAttribute('placeholder') || element.getAttribute('aria-placeholder');
+    if (placeholder?.trim()) return placeholder;
+  }
+
+  return '';
+}
+
+/**
+ * AccName step 2C: value of a control embedded in another element's label
+ */
+function getEmbeddedControlValue(element: HTMLElement, role: string | null): string | null {
+  if (isInstanceOf(element, HTMLSelectElement)) {
+    return Array.from(element.selectedOptions).map(option => option.text).join(' ');
+  }
+
+  if (role && RANGE_ROLES.has(role)) {
+    const valueText = element.getAttribute('aria-valuetext') ?? element.getAttribute('aria-valuenow');
+    if (valueText !== null) return valueText;
+    if (isInstanceOf(element, HTMLInputElement)) return element.value;
+    return '';
+  }
+
+  if (role === 'textbox' || role === 'searchbox' || role === 'combobox') {
+    if (isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLTextAreaElement)) {
+      return element.value;
+    }
+    return element.textContent || '';
+  }
+
+  if (role === 'listbox') {
+    return Array.from(element.querySelectorAll('[role="option"][aria-selected="true"]'))
+      .map(option => option.textContent || '')
+      .join(' ');
+  }
+
+  return null;
+}
+
+/**
+ * AccName step 2E: text alternatives defined by HTML
+ */
+function getNativeTextAlternative(element: HTMLElement, state: TraversalState): string {
+  const tag = element.tagName.toLowerCase();
+
+  if (isInstanceOf(element, HTMLInputElement)) {
+    const type = element.type;
+
+    if (type === 'button' || type === 'submit' || type === 'reset') {
+      const value = element.getAttribute('value');
+      if (value !== null) return value;
+      if (type === 'submit') return 'Submit';
+      if (type === 'reset') return 'Reset';
+      return '';
+    }
+
+    if (type === 'image') {
+      return element.getAttribute('alt') || element.getAttribute('value') || element.getAttribute('title') || 'Submit';
+    }
+  }
+
+  // Labelable elements are named by their <label> elements
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    return Array.from(labels)
+      .map(label => getTextFromContent(label, state))
+      .join(' ');
+  }
+
+  switch (tag) {
+    case 'img':
+    case 'area':
+      return element.getAttribute('alt') || '';
+    case 'fieldset':
+      return getFirstChildText(element, 'legend', state);
+    case 'figure':
+      return getFirstChildText(element, 'figcaption', state);
+    case 'table':
+      return getFirstChildText(element, 'caption', state);
+    case 'optgroup':
+      return element.getAttribute('label') || '';
+    case 'option':
+      return element.getAttribute('label') || '';
+    case 'svg':
+      return getFirstChildText(element, 'title', state);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Text of the first direct child with the given tag
+ */
+function getFirstChildText(element: Element, tag: string, state: TraversalState): string {
+  const child = Array.from(element.children).find(c => c.tagName.toLowerCase() === tag);
+  return child ? getTextFromContent(child, state) : '';
+}
+
+/**
+ * AccName step 2F: concatenate the text alternatives of all child nodes,
+ * including CSS generated content and shadow DOM / slotted content
+ */
+function getTextFromContent(element: Element, state: TraversalState): string {
+  const view = element.ownerDocument.defaultView ?? window;
+  const parts: string[] = [getGeneratedContent(view, element, '::before')];
+
+  for (const child of getAccessibleChildren(element)) {
+    const text = computeTextAlternative(child, state, false);
+    parts.push(isInlineNode(view, child) ? text : ` ${text} `);
+  }
+
+  parts.push(getGeneratedContent(view, element, '::after'));
+
+  return parts.join('');
+}
+
+/**
+ * Children in the flat tree: shadow root content or slotted nodes when present
+ */
+function getAccessibleChildren(element: Element): Node[] {
+  if (element.tagName.toLowerCase() === 'slot') {
+    const assigned = (element as HTMLSlotElement).assignedNodes({ flatten: true });
+    if (assigned.length > 0) return assigned;
+  }
+
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.childNodes);
+  }
+
+  return Array.from(element.childNodes);
+}
+
+/**
+ * Whether a node is rendered inline (inline nodes are not separated by spaces)
+ */
+function isInlineNode(view: Window, node: Node): boolean {
+  if (node.nodeType !== Node.ELEMENT_NODE) return true;
+  const display = view.getComputedStyle(node as Element).display;
+  return display === 'inline' || display === 'contents';
+}
+
+/**
+ * Text from CSS ::before/::after content
+ */
+function getGeneratedContent(view: Window, element: Element, pseudo: '::before' | '::after'): string {
+  try {
+    const content = view.getComputedStyle(element, pseudo).content;
+    if (!content || content === 'none' || content === 'normal') return '';
+
+    // Only quoted strings produce text (ignore counters, url(), attr() etc.)
+    const strings = content.match(/"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'/g);
+    return strings ? strings.map(s => s.slice(1, -1)).join('') : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Resolve an IDREF list attribute within the element's own root
+ */
+export function resolveIdRefs(element: Element, attribute: string): Element[] {
+  const ids = (element.getAttribute(attribute) || '').split(/\s+/).filter(id => id.length > 0);
+  if (ids.length === 0) return [];
+
+  const root = element.getRootNode();
+  const scope: Document | ShadowRoot = isShadowRoot(root) ? root : element.ownerDocument;
+
+  return ids
+    .map(id => scope.getElementById(id))
+    .filter((target): target is HTMLElement => target !== null);
+}
+
+/**
+ * Collapse whitespace the way assistive technology presents names
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
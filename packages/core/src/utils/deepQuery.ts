@@ -0,0 +1,224 @@
+/**
+ * Deep Query - Selectors that pierce shadow root and iframe boundaries
+ *
+ * A deep selector is a chain of ordinary CSS selectors joined by boundary
+ * separators. Each segment is resolved inside the scope entered through
+ * the element matched by the previous segment:
+ *
+ * - `>>>` enters the open shadow root of the previous match,
+ *   e.g. `sl-input#email >>> input`
+ * - `|>` enters the document of the previous match (a same-origin iframe),
+ *   e.g. `iframe#payment |> #card-number`
+ */
+
+import { getElementSelector } from '../utils';
+
+/**
+ * Separator between selector segments that cross a shadow root
+ */
+export const SHADOW_PIERCE = '>>>';
+
+/**
+ * Separator between selector segments that enter an iframe document
+ */
+export const FRAME_PIERCE = '|>';
+
+/**
+ * A single CSS segment of a deep selector
+ */
+export interface DeepSelectorSegment {
+  /** Plain CSS selector for this segment */
+  selector: string;
+
+  /** How to descend from the matched element into the next segment */
+  enter?: 'shadow' | 'frame';
+}
+
+/**
+ * Parse a deep selector into its CSS segments.
+ * Separators inside quotes or attribute brackets are ignored.
+ */
+export function parseDeepSelector(selector: string): DeepSelectorSegment[] {
+  const segments: DeepSelectorSegment[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let brackets = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+
+    if (quote) {
+      if (char === quote && selector[i - 1] !== '\\') quote = null;
+      current += char;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      brackets++;
+    } else if (char === ']') {
+      brackets = Math.max(0, brackets - 1);
+    } else if (brackets === 0) {
+      const separator = selector.startsWith(SHADOW_PIERCE, i) ? SHADOW_PIERCE
+        : selector.startsWith(FRAME_PIERCE, i) ? FRAME_PIERCE
+        : null;
+
+      if (separator) {
+        segments.push({
+          selector: current.trim(),
+          enter: separator === SHADOW_PIERCE ? 'shadow' : 'frame',
+        });
+        current = '';
+        i += separator.length - 1;
+        continue;
+      }
+    }
+
+    current += char;
+  }
+
+  segments.push({ selector: current.trim() });
+  return segments;
+}
+
+/**
+ * Split a deep selector into its plain CSS segments
+ */
+export function splitDeepSelector(selector: string): string[] {
+  return parseDeepSelector(selector).map(segment => segment.selector);
+}
+
+/**
+ * Check whether a selector crosses at least one shadow root or frame boundary
+ */
+export function isDeepSelector(selector: string): boolean {
+  return parseDeepSelector(selector).length > 1;
+}
+
+/**
+ * Check whether a node is a shadow root
+ */
+export function isShadowRoot(node: Node | null | undefined): node is ShadowRoot {
+  return !!node && node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node;
+}
+
+/**
+ * Get the document of a same-origin frame element, or null when it is
+ * not loaded or belongs to another origin
+ */
+export function getFrameDocument(element: Element): Document | null {
+  const tag = element.tagName.toLowerCase();
+  if (tag !== 'iframe' && tag !== 'frame') return null;
+
+  try {
+    return (element as HTMLIFrameElement).contentDocument ?? null;
+  } catch {
+    // Cross-origin frames throw on access in some browsers
+    return null;
+  }
+}
+
+/**
+ * Get the frame element hosting a document, or null for the top document
+ */
+function getHostFrame(doc: Document): HTMLElement | null {
+  if (doc === document) return null;
+
+  try {
+    return (doc.defaultView?.frameElement as HTMLElement | null) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the parent of an element, stepping from a shadow root to its host
+ */
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) return element.parentElement;
+
+  const root = element.getRootNode();
+  return isShadowRoot(root) ? root.host : null;
+}
+
+/**
+ * Find the first element matching a (possibly deep) selector
+ */
+export function querySelectorDeep(
+  selector: string,
+  root: Document | ShadowRoot = document
+): HTMLElement | null {
+  const segments = parseDeepSelector(selector);
+  let scope: Document | ShadowRoot | null = root;
+  let element: Element | null = null;
+
+  for (const segment of segments) {
+    if (!scope) return null;
+
+    element = scope.querySelector(segment.selector);
+    if (!element) return null;
+
+    // Descend into the shadow root or frame document for the next segment
+    if (segment.enter === 'shadow') {
+      scope = element.shadowRoot;
+    } else if (segment.enter === 'frame') {
+      scope = getFrameDocument(element);
+    }
+  }
+
+  return element as HTMLElement | null;
+}
+
+/**
+ * Find all elements matching a plain CSS selector in a document or shadow
+ * root and in every open shadow root inside it (frames are not entered)
+ */
+export function querySelectorAllDeep(selector: string, root: Document | ShadowRoot = document): HTMLElement[] {
+  const matches = Array.from(root.querySelectorAll<HTMLElement>(selector));
+
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    if (element.shadowRoot) {
+      matches.push(...querySelectorAllDeep(selector, element.shadowRoot));
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Build a selector for an element that also works from the top document
+ * when the element lives inside open shadow roots or same-origin iframes
+ */
+export function getDeepSelector(element: HTMLElement): string {
+  let selector = getElementSelector(element);
+  let current: HTMLElement = element;
+
+  while (true) {
+    const root = current.getRootNode();
+
+    if (isShadowRoot(root)) {
+      current = root.host as HTMLElement;
+      selector = `${getElementSelector(current)} ${SHADOW_PIERCE} ${selector}`;
+      continue;
+    }
+
+    const frame = root.nodeType === Node.DOCUMENT_NODE ? getHostFrame(root as Document) : null;
+    if (frame) {
+      current = frame;
+      selector = `${getElementSelector(current)} ${FRAME_PIERCE} ${selector}`;
+      continue;
+    }
+
+    return selector;
+  }
+}
+
+/**
+ * Get the frame-qualified selector of the iframe an element lives in,
+ * or undefined when it belongs to the top document
+ */
+export function getFrameSelector(element: HTMLElement): string | undefined {
+  const frame = getHostFrame(element.ownerDocument);
+  return frame ? getDeepSelector(frame) : undefined;
+}
@@ -0,0 +1,202 @@
+/**
+ * Fingerprint - Recognize an element again after the page re-rendered it
+ *
+ * When a framework replaces a subtree, refs and selectors from the previous
+ * context point at nodes that are gone. The fingerprint keeps what a person
+ * would recognize the element by (its tag, role, name, the text next to it
+ * and where it sits in its section) so the closest match in the new DOM can
+ * be picked instead.
+ */
+
+import type { ElementFingerprint } from '../types';
+import { isElementVisible } from '../utils';
+import { computeAccessibleName, getElementRole } from './accessibility';
+import { querySelectorAllDeep } from './deepQuery';
+import { getEnclosingSections } from '../scanner/sections';
+
+/**
+ * Nearby text longer than this is cut (keeping the end closest to the element)
+ */
+const MAX_NEARBY_LENGTH = 60;
+
+/**
+ * How many ancestors to climb looking for nearby text
+ */
+const NEARBY_TEXT_DEPTH = 3;
+
+/**
+ * Weights of the fingerprint parts when comparing elements
+ */
+const WEIGHTS = {
+  name: 0.4,
+  nearbyText: 0.2,
+  section: 0.15,
+  role: 0.15,
+  index: 0.1,
+};
+
+/**
+ * Matches scoring below this are not trusted
+ */
+const MIN_CONFIDENCE = 0.6;
+
+/**
+ * The best match must beat the runner-up by this much
+ */
+const MIN_MARGIN = 0.1;
+
+/**
+ * Candidates whose section is compared (the costly part), best first
+ */
+const MAX_SECTION_CANDIDATES = 10;
+
+/**
+ * A DOM element compared against a fingerprint
+ */
+interface FingerprintCandidate {
+  element: HTMLElement;
+  score: number;
+}
+
+/**
+ * Build the fingerprint of an element. The section is filled in by the
+ * scanner, which knows the enclosing sections. The element's accessible
+ * name can be passed in when it is already known.
+ */
+export function buildFingerprint(element: HTMLElement, name?: string): ElementFingerprint {
+  const fingerprint: ElementFingerprint = {
+    tag: element.tagName.toLowerCase(),
+    name: name ?? computeAccessibleName(element),
+    index: getSiblingIndex(element),
+  };
+
+  const role = getElementRole(element);
+  if (role) {
+    fingerprint.role = role;
+  }
+
+  const nearbyText = getNearbyText(element);
+  if (nearbyText) {
+    fingerprint.nearbyText = nearbyText;
+  }
+
+  return fingerprint;
+}
+
+/**
+ * Find the element of a document (including its open shadow roots) that best
+ * matches a fingerprint. Returns null when no element is close enough or the
+ * best two are too close to tell apart.
+ */
+export function matchFingerprint(
+  fingerprint: ElementFingerprint,
+  doc: Document = document
+): { element: HTMLElement; confidence: number } | null {
+  // Every visible candidate gets its name and nearby text compared: a moved
+  // element keeps its name but not its position, so no cut by structure
+  const candidates: FingerprintCandidate[] = querySelectorAllDeep(fingerprint.tag, doc)
+    .filter(element => isElementVisible(element))
+    .map(element => ({ element, score: scoreStructure(fingerprint, element) + scoreText(fingerprint, element) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SECTION_CANDIDATES);
+
+  for (const candidate of candidates) {
+    candidate.score += WEIGHTS.section * compareText(fingerprint.section, getSectionLabel(candidate.element));
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  if (!best || best.score < MIN_CONFIDENCE) return null;
+  if (runnerUp && best.score - runnerUp.score < MIN_MARGIN) return null;
+
+  return { element: best.element, confidence: Math.round(best.score * 100) / 100 };
+}
+
+/**
+ * Check whether an element found some other way (e.g. by a positional
+ * locator) still looks like the fingerprinted one
+ */
+export function fitsFingerprint(fingerprint: ElementFingerprint, element: HTMLElement): boolean {
+  if (element.tagName.toLowerCase() !== fingerprint.tag) return false;
+
+  const score = scoreStructure(fingerprint, element)
+    + scoreText(fingerprint, element)
+    + WEIGHTS.section * compareText(fingerprint.section, getSectionLabel(element));
+  return score >= MIN_CONFIDENCE;
+}
+
+/**
+ * Score the role and sibling index of a fingerprint against an element
+ */
+function scoreStructure(fingerprint: ElementFingerprint, element: HTMLElement): number {
+  return WEIGHTS.role * (fingerprint.role === (getElementRole(element) ?? undefined) ? 1 : 0)
+    + WEIGHTS.index * (fingerprint.index === getSiblingIndex(element) ? 1 : 0);
+}
+
+/**
+ * Score the name and nearby text of a fingerprint against an element
+ */
+function scoreText(fingerprint: ElementFingerprint, element: HTMLElement): number {
+  return WEIGHTS.name * compareText(fingerprint.name, computeAccessibleName(element))
+    + WEIGHTS.nearbyText * compareText(fingerprint.nearbyText, getNearbyText(element));
+}
+
+/**
+ * Compare two texts: 1 when equal (ignoring case), otherwise the share of words they have in common
+ */
+function compareText(a: string | undefined, b: string | undefined): number {
+  const left = (a ?? '').toLowerCase();
+  const right = (b ?? '').toLowerCase();
+  if (left === right) return 1;
+  if (!left || !right) return 0;
+
+  const leftWords = new Set(left.split(/\W+/).filter(Boolean));
+  const rightWords = new Set(right.split(/\W+/).filter(Boolean));
+  if (leftWords.size === 0 || rightWords.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of leftWords) {
+    if (rightWords.has(word)) shared++;
+  }
+
+  return shared / (leftWords.size + rightWords.size - shared);
+}
+
+/**
+ * Get the label of the innermost section an element is in
+ */
+function getSectionLabel(element: HTMLElement): string | undefined {
+  const sections = getEnclosingSections(element);
+  return sections[sections.length - 1]?.label;
+}
+
+/**
+ * Get the position of an element among its parent's children with the same tag
+ */
+function getSiblingIndex(element: Element): number {
+  let index = 0;
+  for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    if (sibling.tagName === element.tagName) index++;
+  }
+  return index;
+}
+
+/**
+ * Get the closest text before an element: a preceding sibling's text,
+ * or that of a preceding sibling of one of its nearest ancestors
+ */
+function getNearbyText(element: Element): string | undefined {
+  let current: Element | null = element;
+
+  for (let depth = 0; current && depth < NEARBY_TEXT_DEPTH; depth++) {
+    for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      const text = (sibling.textContent || '').replace(/\s+/g, ' ').trim();
+      if (text) {
+        return text.length > MAX_NEARBY_LENGTH ? text.slice(-MAX_NEARBY_LENGTH) : text;
+      }
+    }
+    current = current.parentElement;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,313 @@
+/**
+ * Locators - Several independent ways to find the same element again
+ *
+ * A CSS path like `div:nth-of-type(3) > button` breaks as soon as the layout
+ * shifts. Each element also gets locators built from what users and tests
+ * rely on: a test id, its role and accessible name, its label, its visible
+ * text, plus CSS and XPath. Each carries a stability score, so the most
+ * robust one is tried first when the element has to be found again.
+ *
+ * Action targets can use the same strategies in a small locator syntax:
+ *
+ * - `role=button[name="Save"]` (or just `role=dialog`)
+ * - `text="Sign in"`, `label="Email"`, `testid=checkout`
+ * - `xpath=//form//button[2]`, `css=#main .card`
+ */
+
+import type { Locator } from '../types';
+import { isElementVisible } from '../utils';
+import { computeAccessibleName, getElementRole, resolveIdRefs } from './accessibility';
+import { getDeepSelector, isShadowRoot, querySelectorAllDeep, querySelectorDeep } from './deepQuery';
+
+/**
+ * Test id attributes, in order of preference
+ */
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+
+/**
+ * Elements that can be found again by their visible text
+ */
+const TEXT_SELECTOR = [
+  'button', 'a[href]', 'summary', '[role="button"]', '[role="link"]', '[role="tab"]',
+  '[role="menuitem"]', '[role="option"]', '[role="treeitem"]',
+].join(', ');
+
+/**
+ * Form controls that can be found again by their label
+ */
+const LABELABLE_SELECTOR = [
+  'input', 'select', 'textarea', '[contenteditable]', '[role="textbox"]', '[role="combobox"]',
+  '[role="checkbox"]', '[role="radio"]', '[role="switch"]', '[role="slider"]', '[role="listbox"]',
+].join(', ');
+
+/**
+ * Visible texts longer than this are too likely to change to be used as a locator
+ */
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Prefixes of the locator syntax
+ */
+const LOCATOR_SYNTAX = /^(role|text|label|testid|xpath|css)\s*=\s*([\s\S]+)$/i;
+
+/**
+ * Role locator body: a role with an optional [name="..."]
+ */
+const ROLE_SYNTAX = /^([a-z]+)\s*(?:\[\s*name\s*=\s*(["']?)([\s\S]*)\2\s*\])?$/i;
+
+/**
+ * Stability scores of each strategy
+ */
+const SCORES = {
+  testid: 1,
+  role: 0.9,
+  label: 0.85,
+  text: 0.7,
+  cssStable: 0.8,
+  cssAttribute: 0.6,
+  cssPositional: 0.3,
+  xpathId: 0.5,
+  xpathPositional: 0.2,
+};
+
+/**
+ * Build the locators of an element, most stable first. The element's deep
+ * selector and accessible name can be passed in when they are already known.
+ */
+export function buildLocators(element: HTMLElement, selector?: string, accessibleName?: string): Locator[] {
+  const locators: Locator[] = [];
+
+  for (const attribute of TEST_ID_ATTRIBUTES) {
+    const testId = element.getAttribute(attribute);
+    if (testId) {
+      locators.push({ strategy: 'testid', value: testId, attribute, score: SCORES.testid });
+      break;
+    }
+  }
+
+  const role = getElementRole(element);
+  const name = accessibleName ?? computeAccessibleName(element);
+  if (role && name) {
+    locators.push({ strategy: 'role', value: role, name, score: SCORES.role });
+  }
+
+  if (element.matches(LABELABLE_SELECTOR)) {
+    const label = getLabelText(element);
+    if (label) {
+      locators.push({ strategy: 'label', value: label, score: SCORES.label });
+    }
+  }
+
+  if (element.matches(TEXT_SELECTOR)) {
+    const text = normalize(element.textContent || '');
+    if (text && text.length <= MAX_TEXT_LENGTH) {
+      locators.push({ strategy: 'text', value: text, score: SCORES.text });
+    }
+  }
+
+  const css = selector ?? getDeepSelector(element);
+  locators.push({ strategy: 'css', value: css, score: getCssScore(css) });
+
+  // XPath cannot cross shadow roots
+  if (!isShadowRoot(element.getRootNode())) {
+    const xpath = getXPath(element);
+    locators.push({
+      strategy: 'xpath',
+      value: xpath,
+      score: xpath.startsWith('//*[@id=') ? SCORES.xpathId : SCORES.xpathPositional,
+    });
+  }
+
+  return locators.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Parse an action target written in the locator syntax, e.g.
+ * `role=button[name="Save"]`. Returns null for refs and plain CSS selectors.
+ */
+export function parseLocator(target: string): Locator | null {
+  const match = LOCATOR_SYNTAX.exec(target.trim());
+  if (!match) return null;
+
+  const strategy = match[1].toLowerCase() as Locator['strategy'];
+  const body = match[2].trim();
+
+  if (strategy === 'role') {
+    const role = ROLE_SYNTAX.exec(body);
+    if (!role) return null;
+
+    const locator: Locator = { strategy, value: role[1].toLowerCase(), score: 1 };
+    if (role[3] !== undefined) {
+      locator.name = role[3];
+    }
+    return locator;
+  }
+
+  // Text values may be quoted; selectors and expressions are taken as they are
+  const value = (strategy === 'xpath' || strategy === 'css') ? body : unquote(body);
+  return value ? { strategy, value, score: 1 } : null;
+}
+
+/**
+ * Find the element a locator points at within a document (including its open
+ * shadow roots). Returns null when nothing or more than one element matches.
+ * CSS locators are always resolved from the top document.
+ */
+export function resolveLocator(locator: Locator, doc: Document = document, partialText = false): HTMLElement | null {
+  return pickUnique(resolveLocatorAll(locator, doc, partialText));
+}
+
+/**
+ * Find all elements a locator matches within a document (including its open
+ * shadow roots). Names and texts are compared ignoring case and extra
+ * whitespace. With `partialText`, text locators fall back to elements
+ * containing the text when none matches exactly.
+ */
+export function resolveLocatorAll(locator: Locator, doc: Document = document, partialText = false): HTMLElement[] {
+  try {
+    switch (locator.strategy) {
+      case 'testid':
+        return querySelectorAllDeep(`[${locator.attribute ?? 'data-testid'}="${CSS.escape(locator.value)}"]`, doc);
+
+      case 'role': {
+        const name = locator.name !== undefined ? normalize(locator.name).toLowerCase() : undefined;
+        return querySelectorAllDeep('*', doc).filter(element =>
+          getElementRole(element) === locator.value &&
+          (name === undefined || computeAccessibleName(element).toLowerCase() === name)
+        );
+      }
+
+      case 'label': {
+        const label = normalize(locator.value).toLowerCase();
+        return querySelectorAllDeep(LABELABLE_SELECTOR, doc).filter(element =>
+          getLabelText(element).toLowerCase() === label
+        );
+      }
+
+      case 'text': {
+        const text = normalize(locator.value).toLowerCase();
+        const candidates = querySelectorAllDeep(TEXT_SELECTOR, doc)
+          .map(element => ({ element, text: normalize(element.textContent || '').toLowerCase() }));
+        const exact = candidates.filter(candidate => candidate.text === text);
+        const matches = exact.length > 0 || !partialText
+          ? exact
+          : candidates.filter(candidate => candidate.text.includes(text));
+        return matches.map(candidate => candidate.element);
+      }
+
+      case 'css': {
+        // CSS locators are deep selectors that start from the top document
+        const element = querySelectorDeep(locator.value);
+        return element ? [element] : [];
+      }
+
+      case 'xpath': {
+        const result = doc.evaluate(locator.value, doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        const matches: HTMLElement[] = [];
+        for (let i = 0; i < result.snapshotLength; i++) {
+          const node = result.snapshotItem(i);
+          if (node && node.nodeType === Node.ELEMENT_NODE) {
+            matches.push(node as HTMLElement);
+          }
+        }
+        return matches;
+      }
+    }
+  } catch {
+    // Invalid selector or expression
+    return [];
+  }
+
+  return [];
+}
+
+/**
+ * Format a locator in the locator syntax
+ */
+export function formatLocator(locator: Locator): string {
+  switch (locator.strategy) {
+    case 'role':
+      return locator.name !== undefined
+        ? `role=${locator.value}[name="${locator.name}"]`
+        : `role=${locator.value}`;
+    case 'xpath':
+    case 'css':
+      return `${locator.strategy}=${locator.value}`;
+    default:
+      return `${locator.strategy}="${locator.value}"`;
+  }
+}
+
+/**
+ * Get the text of the labels attached to a form control (<label> or aria-labelledby)
+ */
+function getLabelText(element: HTMLElement): string {
+  const labelledBy = resolveIdRefs(element, 'aria-labelledby');
+  const labels: Element[] = labelledBy.length > 0
+    ? labelledBy
+    : Array.from((element as HTMLInputElement).labels ?? []);
+
+  return normalize(labels.map(label => label.textContent || '').join(' '));
+}
+
+/**
+ * Rate how likely a CSS selector is to survive page changes
+ */
+function getCssScore(selector: string): number {
+  if (/:nth-(of-type|child)\(/.test(selector)) return SCORES.cssPositional;
+  if (/^#[^\s>]+$/.test(selector) && !/\d{3,}/.test(selector)) return SCORES.cssStable;
+  return SCORES.cssAttribute;
+}
+
+/**
+ * Build an XPath for an element: anchored at the nearest ancestor with an id,
+ * otherwise a positional path from the document root
+ */
+function getXPath(element: Element): string {
+  const steps: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    if (current.id && !current.id.includes('"')) {
+      steps.unshift(`//*[@id="${current.id}"]`);
+      return steps.join('/');
+    }
+
+    const tag = current.tagName.toLowerCase();
+    let index = 1;
+    for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.tagName === current.tagName) index++;
+    }
+
+    steps.unshift(`${tag}[${index}]`);
+    current = current.parentElement;
+  }
+
+  return `/${steps.join('/')}`;
+}
+
+/**
+ * Pick the one match, preferring visible elements when several match;
+ * ambiguous matches give null rather than a guess
+ */
+function pickUnique(matches: HTMLElement[]): HTMLElement | null {
+  if (matches.length <= 1) return matches[0] ?? null;
+
+  const visible = matches.filter(element => isElementVisible(element));
+  return visible.length === 1 ? visible[0] : null;
+}
+
+/**
+ * Remove matching quotes around a value
+ */
+function unquote(value: string): string {
+  const quoted = /^(["'])([\s\S]*)\1$/.exec(value);
+  return quoted ? quoted[2] : value;
+}
+
+/**
+ * Collapse whitespace
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
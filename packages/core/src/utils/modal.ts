@@ -0,0 +1,168 @@
+/**
+ * Modal - Which parts of the page can be reached right now
+ *
+ * While a modal dialog is open (a `<dialog>` opened with `showModal()`, or a
+ * `role="dialog"`/`role="alertdialog"` element with `aria-modal="true"`),
+ * everything outside it is out of reach. Subtrees marked `inert` are out of
+ * reach as well.
+ */
+
+import { isElementVisible, isInstanceOf } from '../utils';
+import { getComposedParent } from './deepQuery';
+
+const MODAL_CANDIDATE_SELECTOR = [
+  'dialog[open]',
+  '[role="dialog"][aria-modal="true"]',
+  '[role="alertdialog"][aria-modal="true"]',
+].join(', ');
+
+/**
+ * Find the topmost open modal dialog of a document, or null when none is open.
+ * Native modal dialogs live in the top layer and win over ARIA modals;
+ * otherwise the highest z-index wins, and the last one in document order on ties.
+ */
+export function findBlockingModal(doc: Document = document): HTMLElement | null {
+  let topmost: HTMLElement | null = null;
+  let topmostRank = -Infinity;
+
+  for (const candidate of Array.from(doc.querySelectorAll<HTMLElement>(MODAL_CANDIDATE_SELECTOR))) {
+    const native = isModalDialog(candidate);
+    if (!native && candidate.getAttribute('aria-modal') !== 'true') continue;
+    if (!isElementVisible(candidate) || isInert(candidate)) continue;
+
+    const rank = native ? Infinity : getZIndex(candidate);
+    if (rank >= topmostRank) {
+      topmost = candidate;
+      topmostRank = rank;
+    }
+  }
+
+  return topmost;
+}
+
+/**
+ * Check whether an element is inside an inert subtree (also across shadow roots and frames)
+ */
+export function isInert(element: Element): boolean {
+  let current: Element | null = element;
+
+  while (current) {
+    if (current.hasAttribute('inert')) return true;
+    current = getReachParent(current);
+  }
+
+  return false;
+}
+
+/**
+ * Check whether an element is inside a container (also across shadow roots and frames)
+ */
+export function isInside(container: Element, element: Element): boolean {
+  let current: Element | null = element;
+
+  while (current) {
+    if (current === container) return true;
+    current = getReachParent(current);
+  }
+
+  return false;
+}
+
+/**
+ * Check whether an element comes after a reference element, outside it, in
+ * document order (also across shadow roots and frames; a shadow root's
+ * content comes before its host's light children)
+ */
+export function followsElement(reference: Element, element: Element): boolean {
+  const referenceChain = getReachChain(reference);
+  const elementChain = getReachChain(element);
+
+  // Strip the shared ancestors, leaving the two branches below the closest common one
+  let i = referenceChain.length - 1;
+  let j = elementChain.length - 1;
+  while (i >= 0 && j >= 0 && referenceChain[i] === elementChain[j]) {
+    i--;
+    j--;
+  }
+
+  // One contains the other (or they are the same element)
+  if (i < 0 || j < 0) return false;
+
+  const referenceBranch = referenceChain[i];
+  const elementBranch = elementChain[j];
+  const position = referenceBranch.compareDocumentPosition(elementBranch);
+
+  if (position & Node.DOCUMENT_POSITION_DISCONNECTED) {
+    // One branch is in the common ancestor's shadow root, the other a light child
+    return isShadowContent(referenceBranch) && !isShadowContent(elementBranch);
+  }
+
+  return (position & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+}
+
+/**
+ * Check whether a native dialog was opened with showModal()
+ */
+export function isModalDialog(element: HTMLElement): boolean {
+  if (!isInstanceOf(element, HTMLDialogElement)) return false;
+
+  try {
+    return element.matches(':modal');
+  } catch {
+    // Browsers without the :modal pseudo-class
+    return false;
+  }
+}
+
+/**
+ * Get the z-index an element is painted at: its own, or that of its nearest
+ * positioned ancestor with one
+ */
+function getZIndex(element: HTMLElement): number {
+  const view = element.ownerDocument.defaultView ?? window;
+  let current: Element | null = element;
+
+  while (current) {
+    const zIndex = parseInt(view.getComputedStyle(current).zIndex, 10);
+    if (!isNaN(zIndex)) return zIndex;
+    current = getComposedParent(current);
+  }
+
+  return 0;
+}
+
+/**
+ * Get the parent of an element, stepping out of shadow roots and same-origin frames
+ */
+function getReachParent(element: Element): Element | null {
+  const parent = getComposedParent(element);
+  if (parent) return parent;
+
+  try {
+    return element.ownerDocument.defaultView?.frameElement ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get an element and its ancestors up to the top document, innermost first
+ */
+function getReachChain(element: Element): Element[] {
+  const chain: Element[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    chain.push(current);
+    current = getReachParent(current);
+  }
+
+  return chain;
+}
+
+/**
+ * Check whether an element sits directly in a shadow root
+ */
+function isShadowContent(element: Element): boolean {
+  return (element.getRootNode() as ShadowRoot).host !== undefined;
+}
@@ -5,6 +5,8 @@
  * or other sources that may include formatting artifacts.
  */
 
+import { splitDeepSelector } from './deepQuery';
+
 export interface SanitizationResult {
   selector: string;
   original: string;
@@ -85,11 +87,16 @@ export function validateSelector(selector: string): { valid: boolean; error?: st
   }
 
   // Try to validate with querySelector (without querying DOM)
-  // This catches CSS syntax errors
+  // This catches CSS syntax errors. Deep selectors are validated segment by segment.
   try {
     // Create a temporary element to test selector validity
     const testDiv = document.createElement('div');
-    testDiv.querySelector(selector); // This validates syntax without actually finding anything
+    for (const segment of splitDeepSelector(selector)) {
+      if (!segment) {
+        return { valid: false, error: 'Selector has an empty segment around ">>>"' };
+      }
+      testDiv.querySelector(segment); // This validates syntax without actually finding anything
+    }
     return { valid: true };
   } catch (error) {
     return {
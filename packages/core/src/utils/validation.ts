@@ -0,0 +1,94 @@
+/**
+ * Validation - Why a form field is invalid, as the browser and the page see it
+ *
+ * Native constraints (required, type=email, min/max, minlength, pattern,
+ * setCustomValidity, ...) are read from `validity` and `validationMessage`.
+ * Pages that validate on their own mark fields with `aria-invalid` and point
+ * at their error text with `aria-errormessage` or `aria-describedby`.
+ * Nothing here calls checkValidity(): that would fire `invalid` events and
+ * make the page show its error UI.
+ */
+
+import type { FieldValidation } from '../types';
+import { resolveIdRefs } from './accessibility';
+
+/**
+ * ValidityState flags, in the order browsers report them
+ */
+const VALIDITY_FLAGS = [
+  'valueMissing', 'typeMismatch', 'patternMismatch', 'tooLong', 'tooShort',
+  'rangeUnderflow', 'rangeOverflow', 'stepMismatch', 'badInput', 'customError',
+] as const;
+
+/**
+ * Error text longer than this is truncated
+ */
+const MAX_ERROR_LENGTH = 300;
+
+/**
+ * Get the validation state of a form field, or undefined for elements that
+ * take no part in validation
+ */
+export function getFieldValidation(element: HTMLElement): FieldValidation | undefined {
+  const control = element as HTMLInputElement;
+  const ariaInvalid = element.getAttribute('aria-invalid');
+  const markedInvalid = ariaInvalid !== null && ariaInvalid !== 'false';
+  const validates = 'validity' in control && control.willValidate;
+
+  if (!validates && !markedInvalid) {
+    return undefined;
+  }
+
+  const validation: FieldValidation = { valid: true };
+
+  if (validates && !control.validity.valid) {
+    validation.valid = false;
+    validation.failed = VALIDITY_FLAGS.filter(flag => control.validity[flag]);
+    if (control.validationMessage) {
+      validation.message = control.validationMessage;
+    }
+  }
+
+  if (markedInvalid) {
+    validation.valid = false;
+    const errorText = getErrorText(element);
+    if (errorText) {
+      validation.errorText = errorText;
+    }
+  }
+
+  return validation;
+}
+
+/**
+ * Get the error text a page shows for an invalid field: the aria-errormessage
+ * target, or else the aria-describedby targets (only error-like ones when some are)
+ */
+function getErrorText(element: HTMLElement): string | undefined {
+  const errorMessage = resolveIdRefs(element, 'aria-errormessage') as HTMLElement[];
+  const described = resolveIdRefs(element, 'aria-describedby') as HTMLElement[];
+  const errorLike = described.filter(isErrorLike);
+
+  const sources = errorMessage.length > 0
+    ? errorMessage
+    : errorLike.length > 0 ? errorLike : described;
+
+  const text = sources
+    .map(source => (source.textContent || '').replace(/\s+/g, ' ').trim())
+    .filter(part => part.length > 0)
+    .join(' ');
+
+  if (!text) return undefined;
+  return text.length > MAX_ERROR_LENGTH ? `${text.substring(0, MAX_ERROR_LENGTH)}…` : text;
+}
+
+/**
+ * Check whether a description looks like an error message rather than a hint
+ */
+function isErrorLike(element: HTMLElement): boolean {
+  const role = element.getAttribute('role');
+  if (role === 'alert' || role === 'status') return true;
+
+  const className = typeof element.className === 'string' ? element.className : '';
+  return /error|invalid|danger/i.test(`${className} ${element.id}`);
+}
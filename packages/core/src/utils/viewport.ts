@@ -0,0 +1,206 @@
+/**
+ * Viewport - Where an element sits relative to the visible viewport
+ *
+ * `isElementVisible` only looks at an element's own styles. These helpers
+ * add layout awareness: whether the element is scrolled out of view or
+ * clipped away by an `overflow` ancestor, whether something else (a modal
+ * backdrop, a sticky header) covers it, and which container scrolls it.
+ */
+
+import type { ElementViewport } from '../types';
+import { getComposedParent, getDeepSelector } from './deepQuery';
+
+/**
+ * A rectangle in viewport coordinates
+ */
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const SCROLLABLE_OVERFLOW = /(auto|scroll|overlay)/;
+
+/**
+ * Get viewport, occlusion and scroll container information for an element.
+ * Pass the same cache for all elements of a scan to share scroll container lookups.
+ */
+export function getElementViewport(
+  element: HTMLElement,
+  scrollContainers: Map<Element, HTMLElement | null> = new Map()
+): ElementViewport {
+  const viewport: ElementViewport = {
+    inViewport: false,
+    occluded: false,
+  };
+
+  const scrollContainer = getScrollContainer(element, scrollContainers);
+  if (scrollContainer) {
+    viewport.scrollContainer = getDeepSelector(scrollContainer);
+  }
+
+  const visibleRect = getVisibleRect(element);
+  if (!visibleRect) {
+    return viewport;
+  }
+
+  viewport.inViewport = true;
+
+  // Hit-test the center of the visible part of the element
+  const x = (visibleRect.left + visibleRect.right) / 2;
+  const y = (visibleRect.top + visibleRect.bottom) / 2;
+  const hit = elementFromPointDeep(element.ownerDocument, x, y);
+
+  if (hit && !isHitOnElement(element, hit)) {
+    viewport.occluded = true;
+    viewport.occludedBy = getDeepSelector(hit as HTMLElement);
+  }
+
+  return viewport;
+}
+
+/**
+ * Find the nearest ancestor that scrolls an element, or null when only the
+ * document scrolls it
+ */
+export function findScrollContainer(element: HTMLElement): HTMLElement | null {
+  return getScrollContainer(element, new Map());
+}
+
+/**
+ * Check whether an element has overflowing content it lets the user scroll
+ */
+export function isScrollContainer(element: Element): boolean {
+  const view = element.ownerDocument.defaultView ?? window;
+  const style = view.getComputedStyle(element);
+  const scrollsY = SCROLLABLE_OVERFLOW.test(style.overflowY) && element.scrollHeight > element.clientHeight;
+  const scrollsX = SCROLLABLE_OVERFLOW.test(style.overflowX) && element.scrollWidth > element.clientWidth;
+  return scrollsX || scrollsY;
+}
+
+/**
+ * Get the part of an element inside the viewport and all clipping ancestors,
+ * or null when nothing of it is left
+ */
+function getVisibleRect(element: HTMLElement): Rect | null {
+  const bounds = element.getBoundingClientRect();
+  if (bounds.width === 0 && bounds.height === 0) return null;
+
+  const view = element.ownerDocument.defaultView ?? window;
+  let rect: Rect | null = intersect(
+    { left: bounds.left, top: bounds.top, right: bounds.right, bottom: bounds.bottom },
+    { left: 0, top: 0, right: view.innerWidth, bottom: view.innerHeight }
+  );
+
+  let current = getComposedParent(element);
+  while (rect && current && current !== element.ownerDocument.body) {
+    const style = view.getComputedStyle(current);
+
+    if (style.overflowX !== 'visible' || style.overflowY !== 'visible') {
+      const clip = current.getBoundingClientRect();
+      rect = intersect(rect, {
+        left: style.overflowX !== 'visible' ? clip.left : rect.left,
+        top: style.overflowY !== 'visible' ? clip.top : rect.top,
+        right: style.overflowX !== 'visible' ? clip.right : rect.right,
+        bottom: style.overflowY !== 'visible' ? clip.bottom : rect.bottom,
+      });
+    }
+
+    // Fixed elements are not clipped by their ancestors' scroll boxes
+    if (style.position === 'fixed') break;
+
+    current = getComposedParent(current);
+  }
+
+  return rect;
+}
+
+/**
+ * Intersect two rectangles, returning null when they do not overlap
+ */
+function intersect(a: Rect, b: Rect): Rect | null {
+  const rect = {
+    left: Math.max(a.left, b.left),
+    top: Math.max(a.top, b.top),
+    right: Math.min(a.right, b.right),
+    bottom: Math.min(a.bottom, b.bottom),
+  };
+
+  return rect.right > rect.left && rect.bottom > rect.top ? rect : null;
+}
+
+/**
+ * Find the topmost element at a point, descending into open shadow roots
+ */
+function elementFromPointDeep(doc: Document, x: number, y: number): Element | null {
+  let hit = doc.elementFromPoint(x, y);
+
+  while (hit?.shadowRoot) {
+    const inner = hit.shadowRoot.elementFromPoint(x, y);
+    if (!inner || inner === hit) break;
+    hit = inner;
+  }
+
+  return hit;
+}
+
+/**
+ * Check whether a hit-test result belongs to the element: the element itself,
+ * one of its descendants (also across shadow roots) or one of its labels
+ */
+function isHitOnElement(element: HTMLElement, hit: Element): boolean {
+  let current: Element | null = hit;
+
+  while (current) {
+    if (current === element) return true;
+    current = getComposedParent(current);
+  }
+
+  const labels = (element as HTMLInputElement).labels;
+  if (labels) {
+    for (const label of Array.from(labels)) {
+      if (label.contains(hit)) return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find the nearest ancestor that scrolls the element, or null when only
+ * the document scrolls it
+ */
+function getScrollContainer(
+  element: HTMLElement,
+  cache: Map<Element, HTMLElement | null>
+): HTMLElement | null {
+  const visited: Element[] = [];
+  let current = getComposedParent(element);
+  let container: HTMLElement | null = null;
+
+  while (current && current !== element.ownerDocument.body && current !== element.ownerDocument.documentElement) {
+    if (cache.has(current)) {
+      container = cache.get(current)!;
+      break;
+    }
+
+    visited.push(current);
+
+    if (isScrollContainer(current)) {
+      container = current as HTMLElement;
+      break;
+    }
+
+    current = getComposedParent(current);
+  }
+
+  // Every ancestor walked past shares the same scroll container
+  for (const ancestor of visited) {
+    if (ancestor !== container) {
+      cache.set(ancestor, container);
+    }
+  }
+
+  return container;
+}